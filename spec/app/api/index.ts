@@ -6,6 +6,125 @@ export default {
       return Response.json({ status: "ok", timestamp: Date.now() });
     }
 
+    if (url.pathname === "/stream") {
+      const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+      const writer = writable.getWriter();
+      const encoder = new TextEncoder();
+      const delay = Number(url.searchParams.get("delay") ?? 1000);
+
+      void (async () => {
+        await writer.write(encoder.encode("<!doctype html><html><head><title>Stream</title>"));
+        await writer.write(encoder.encode("</head><body><p>first</p>"));
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        await writer.write(encoder.encode('<img src="/assets/late.png"></body></html>'));
+        await writer.close();
+      })();
+
+      return new Response(readable, { headers: { "content-type": "text/html; charset=utf-8" } });
+    }
+
+    if (url.pathname === "/ws") {
+      if (request.headers.get("upgrade") !== "websocket") {
+        return new Response("Expected a WebSocket upgrade", { status: 426 });
+      }
+      const { 0: client, 1: server } = new WebSocketPair();
+      const mount = request.headers.get("x-workerstack-mount");
+      server.accept();
+      server.addEventListener("message", (event) => {
+        server.send(JSON.stringify({ echo: event.data, path: url.pathname, mount }));
+      });
+      return new Response(null, { status: 101, webSocket: client });
+    }
+
+    if (url.pathname === "/events") {
+      const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+      const writer = writable.getWriter();
+      const encoder = new TextEncoder();
+      const delay = Number(url.searchParams.get("delay") ?? 1000);
+
+      void (async () => {
+        await writer.write(encoder.encode("data: first\n\n"));
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        await writer.write(encoder.encode("data: second\n\n"));
+        await writer.close();
+      })();
+
+      return new Response(readable, {
+        headers: { "content-type": "text/event-stream", "cache-control": "no-cache" },
+      });
+    }
+
+    if (url.pathname === "/throw") {
+      throw new Error("Upstream failure");
+    }
+
+    if (url.pathname === "/modules") {
+      const html =
+        "<!doctype html><html><head>" +
+        '<script type="importmap">{"imports":{"lib":"/assets/lib.js","/assets/dep.js":"/assets/dep-1.js","tag":"/assets/tag.js?\\u003c/script>"}}</script>' +
+        '<script type="module">import("/assets/chunk.js");</script>' +
+        "</head><body></body></html>";
+      return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
+    }
+
+    if (url.pathname === "/csp") {
+      const nonce = url.searchParams.get("nonce");
+      const base = url.searchParams.get("base");
+      const policy =
+        (nonce
+          ? `script-src 'self' 'nonce-${nonce}'; style-src 'self'`
+          : "default-src 'self'; style-src 'self' 'unsafe-inline'") +
+        (base ? `; base-uri '${base}'` : "");
+      return new Response("<!doctype html><html><head></head><body></body></html>", {
+        headers: { "content-type": "text/html; charset=utf-8", "content-security-policy": policy },
+      });
+    }
+
+    if (url.pathname === "/fragments") {
+      const html =
+        "<!doctype html><html><head></head><body>" +
+        '<workerstack-fragment src="/app/api/fragment/header">no header</workerstack-fragment>' +
+        '<workerstack-fragment src="/app/api/fragment/slow?delay=400">a</workerstack-fragment>' +
+        '<workerstack-fragment src="/app/api/fragment/slow?delay=400">b</workerstack-fragment>' +
+        '<workerstack-fragment src="/app/api/fragment/slow?delay=2000" timeout="100">' +
+        "<p>timed out</p></workerstack-fragment>" +
+        '<workerstack-fragment src="/app/api/fragment/missing">missing</workerstack-fragment>' +
+        '<workerstack-fragment src="/app/api/fragment/loop">loop</workerstack-fragment>' +
+        '<workerstack-fragment src="/app/api/fragment/footer">no footer</workerstack-fragment>' +
+        "</body></html>";
+      return new Response(html, { headers: { "content-type": "text/html; charset=utf-8" } });
+    }
+
+    if (url.pathname.startsWith("/fragment/")) {
+      const html = (body: string) =>
+        new Response(body, { headers: { "content-type": "text/html; charset=utf-8" } });
+
+      switch (url.pathname) {
+        case "/fragment/header":
+          return html('<header><img src="/assets/logo.svg">Header</header>');
+        case "/fragment/slow": {
+          const delay = Number(url.searchParams.get("delay"));
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          return html(`<p>slow ${delay}</p>`);
+        }
+        case "/fragment/footer":
+          return html("<footer>Footer</footer>");
+        case "/fragment/loop":
+          return html(
+            '<i>nested</i><workerstack-fragment src="/app/api/fragment/loop">' +
+              "<b>depth limit</b></workerstack-fragment>",
+          );
+        default:
+          return new Response("not found", { status: 404 });
+      }
+    }
+
+    if (url.pathname === "/module.js") {
+      return new Response('export const wasm = new URL("/assets/x.wasm", import.meta.url);', {
+        headers: { "content-type": "text/javascript" },
+      });
+    }
+
     return Response.json({ path: url.pathname, method: request.method });
   },
 };
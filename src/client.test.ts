@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { crossMountUrl, mountUrl } from "./client.ts";
+
+const globals = globalThis as { __BASE_PATH__?: string; __WORKERSTACK_MOUNTS__?: unknown };
+
+void describe("client", () => {
+  afterEach(() => {
+    delete globals.__BASE_PATH__;
+    delete globals.__WORKERSTACK_MOUNTS__;
+  });
+
+  void describe("mountUrl", () => {
+    void it("resolves paths and workerstack:// URLs against the mount", () => {
+      globals.__BASE_PATH__ = "/app";
+
+      assert.strictEqual(mountUrl(), "/app/");
+      assert.strictEqual(mountUrl("/api/data?x=1"), "/app/api/data?x=1");
+      assert.strictEqual(mountUrl("workerstack://settings"), "/app/settings");
+    });
+
+    void it("falls back to the root mount", () => {
+      assert.strictEqual(mountUrl("workerstack://settings"), "/settings");
+    });
+  });
+
+  void describe("crossMountUrl", () => {
+    void it("resolves against another sub-app's mount by name or binding", () => {
+      globals.__WORKERSTACK_MOUNTS__ = { APP_API: "/app/api", ROOT: "/" };
+
+      assert.strictEqual(crossMountUrl("app-api", "/x"), "/app/api/x");
+      assert.strictEqual(crossMountUrl("APP_API"), "/app/api/");
+      assert.strictEqual(crossMountUrl("root", "about"), "/about");
+    });
+
+    void it("throws for unknown mounts and a missing runtime", () => {
+      assert.throws(() => crossMountUrl("app-api"), /client runtime is not loaded/);
+
+      globals.__WORKERSTACK_MOUNTS__ = {};
+      assert.throws(() => crossMountUrl("app-api"), /Unknown workerstack mount "app-api"/);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Mount helpers for sub-app code running in the browser. `mountUrl` reads the
+ * `window.__BASE_PATH__` injected into every page; `crossMountUrl` also needs
+ * the mount table published by the client runtime (`clientRuntime: true`).
+ *
+ * The router serves these functions to pages as part of the client runtime by
+ * serialising their source, so each one must stay self-contained: no imports,
+ * module-level values or nested named functions, only `globalThis`.
+ */
+
+type WorkerstackGlobals = {
+  __BASE_PATH__?: string;
+  __WORKERSTACK_MOUNTS__?: Record<string, string>;
+};
+
+/**
+ * Resolves a path against the current mount, e.g. `mountUrl("/api/data")` →
+ * `/app/api/data`. Accepts `workerstack://` URLs too.
+ */
+export function mountUrl(path = "/"): string {
+  const scheme = "workerstack://";
+  const base = (globalThis as WorkerstackGlobals).__BASE_PATH__ || "/";
+  if (path.startsWith(scheme)) path = path.slice(scheme.length);
+  return (base === "/" ? "/" : base + "/") + path.replace(/^\/+/, "");
+}
+
+/**
+ * Resolves a path against another sub-app's mount, named by its wrangler
+ * `name` or binding, e.g. `crossMountUrl("app-api", "/x")` → `/app/api/x`.
+ * Throws for sub-apps that are not statically mounted on this host.
+ */
+export function crossMountUrl(name: string, path = "/"): string {
+  const mounts = (globalThis as WorkerstackGlobals).__WORKERSTACK_MOUNTS__;
+  const mount = mounts?.[name.toUpperCase().replace(/-/g, "_")];
+  if (mount === undefined) {
+    throw new Error(
+      mounts
+        ? `Unknown workerstack mount "${name}".`
+        : 'The workerstack client runtime is not loaded. Set "clientRuntime": true in ROUTES.',
+    );
+  }
+  return (mount === "/" ? "/" : mount + "/") + path.replace(/^\/+/, "");
+}
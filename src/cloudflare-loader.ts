@@ -11,7 +11,11 @@ export const load: LoadHook = async (url, context, nextLoad) => {
   if (url.startsWith("cloudflare:")) {
     return {
       format: "module",
-      source: "export const env = {};",
+      source: [
+        "export const env = {};",
+        "export class DurableObject { constructor(ctx, env) { this.ctx = ctx; this.env = env; } }",
+        "export function waitUntil(promise) { promise.catch(() => {}); }",
+      ].join("\n"),
       shortCircuit: true,
     };
   }
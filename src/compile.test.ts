@@ -111,6 +111,7 @@ void describe("Compile Script", () => {
         name: "custom-router",
         main: "./custom.ts",
         observability: { enabled: true },
+        vars: { ROUTES: { errorPage: "/errors/{status}", routes: [] } },
       }),
     );
 
@@ -125,7 +126,106 @@ void describe("Compile Script", () => {
     assert.strictEqual(rootConfig.main, "./custom.ts");
     assert.deepStrictEqual(rootConfig.observability, { enabled: true });
     assert.ok(rootConfig.services !== undefined);
-    assert.ok(rootConfig.vars.ROUTES !== undefined);
+    assert.strictEqual(rootConfig.vars.ROUTES.errorPage, "/errors/{status}");
+    assert.strictEqual(rootConfig.vars.ROUTES.routes.length, 1);
+  });
+
+  void it("compiles the _redirects file into redirect and rewrite rules", () => {
+    mkdirSync(join(tmpDir, "spec", "app"), { recursive: true });
+    writeFileSync(join(tmpDir, "spec", "app", "wrangler.json"), JSON.stringify({ name: "my-app" }));
+    writeFileSync(
+      join(tmpDir, "spec", "_redirects"),
+      [
+        "# moved content",
+        "/blog/:slug  /app/posts/:slug  301",
+        "/docs/*      https://docs.example.com/:splat",
+        "",
+        "/pricing     /app/plans        200",
+      ].join("\n"),
+    );
+
+    runCompile();
+
+    const rootConfig = JSON.parse(readFileSync(join(tmpDir, "spec", "wrangler.json"), "utf-8"));
+
+    assert.deepStrictEqual(rootConfig.vars.ROUTES.redirects, [
+      { source: "/blog/:slug", destination: "/app/posts/:slug", status: 301 },
+      { source: "/docs/:splat*", destination: "https://docs.example.com/:splat" },
+    ]);
+    assert.deepStrictEqual(rootConfig.vars.ROUTES.rewrites, [
+      { source: "/pricing", destination: "/app/plans" },
+    ]);
+    assert.strictEqual(rootConfig.vars.ROUTES._redirects, true);
+  });
+
+  void it("replaces and removes rules previously compiled from _redirects", () => {
+    mkdirSync(join(tmpDir, "spec", "app"), { recursive: true });
+    writeFileSync(join(tmpDir, "spec", "app", "wrangler.json"), JSON.stringify({ name: "my-app" }));
+    writeFileSync(join(tmpDir, "spec", "_redirects"), "/a /b 301\n/c /d 200\n");
+    runCompile();
+
+    const readRoutes = () =>
+      JSON.parse(readFileSync(join(tmpDir, "spec", "wrangler.json"), "utf-8")).vars.ROUTES;
+
+    writeFileSync(join(tmpDir, "spec", "_redirects"), "/c /d 200\n");
+    runCompile();
+    assert.deepStrictEqual(readRoutes().redirects, []);
+
+    rmSync(join(tmpDir, "spec", "_redirects"));
+    runCompile();
+    const routes = readRoutes();
+    assert.strictEqual(routes.redirects, undefined);
+    assert.strictEqual(routes.rewrites, undefined);
+    assert.strictEqual(routes._redirects, undefined);
+  });
+
+  void it("keeps hand-written rules when there is no _redirects file", () => {
+    mkdirSync(join(tmpDir, "spec", "app"), { recursive: true });
+    writeFileSync(join(tmpDir, "spec", "app", "wrangler.json"), JSON.stringify({ name: "my-app" }));
+    const redirects = [{ source: "/old", destination: "/new" }];
+    writeFileSync(
+      join(tmpDir, "spec", "wrangler.json"),
+      JSON.stringify({ vars: { ROUTES: { redirects, routes: [] } } }),
+    );
+
+    runCompile();
+
+    const rootConfig = JSON.parse(readFileSync(join(tmpDir, "spec", "wrangler.json"), "utf-8"));
+    assert.deepStrictEqual(rootConfig.vars.ROUTES.redirects, redirects);
+  });
+
+  void it("errors on an invalid _redirects status", () => {
+    mkdirSync(join(tmpDir, "spec", "app"), { recursive: true });
+    writeFileSync(join(tmpDir, "spec", "app", "wrangler.json"), JSON.stringify({ name: "my-app" }));
+    writeFileSync(join(tmpDir, "spec", "_redirects"), "/old /new 404\n");
+
+    assert.throws(() => runCompile(), { message: /Invalid status "404"/ });
+  });
+
+  void it("adds the analytics dataset binding when enabled", () => {
+    mkdirSync(join(tmpDir, "spec"), { recursive: true });
+    writeFileSync(
+      join(tmpDir, "spec", "wrangler.json"),
+      JSON.stringify({
+        vars: { ROUTES: { analytics: { binding: "METRICS" }, routes: [] } },
+        analytics_engine_datasets: [
+          { binding: "OTHER", dataset: "other" },
+          { binding: "METRICS", dataset: "old" },
+        ],
+      }),
+    );
+    mkdirSync(join(tmpDir, "spec", "app"), { recursive: true });
+    writeFileSync(join(tmpDir, "spec", "app", "wrangler.json"), JSON.stringify({ name: "my-app" }));
+
+    runCompile();
+
+    const rootConfig = JSON.parse(readFileSync(join(tmpDir, "spec", "wrangler.json"), "utf-8"));
+
+    assert.deepStrictEqual(rootConfig.analytics_engine_datasets, [
+      { binding: "OTHER", dataset: "other" },
+      { binding: "METRICS", dataset: "workerstack" },
+    ]);
+    assert.deepStrictEqual(rootConfig.vars.ROUTES.analytics, { binding: "METRICS" });
   });
 
   void it("errors on duplicate service names", () => {
@@ -167,4 +267,145 @@ void describe("Compile Script", () => {
     assert.ok(rootService !== undefined);
     assert.strictEqual(rootService.service, "root");
   });
+
+  void it("applies route options from workerstack.json", () => {
+    mkdirSync(join(tmpDir, "spec", "docs"), { recursive: true });
+    writeFileSync(join(tmpDir, "spec", "docs", "wrangler.json"), JSON.stringify({ name: "docs" }));
+    writeFileSync(
+      join(tmpDir, "spec", "docs", "workerstack.json"),
+      JSON.stringify({
+        host: "docs.example.com",
+        path: "/",
+        rewriteJs: true,
+        fallthrough: [404, 410],
+        timeout: 5000,
+        errorPage: "/errors/{status}",
+        interceptErrors: true,
+        auth: { type: "basic", credentials: "DOCS_USERS" },
+        cors: { origins: "*" },
+        security: true,
+        rateLimit: { type: "binding", binding: "DOCS_LIMITER" },
+        cache: { html: 60 },
+        rewriteBody: { json: ["hal"], xml: true },
+        sitemap: false,
+        openapi: "/docs/openapi.json",
+      }),
+    );
+
+    mkdirSync(join(tmpDir, "spec", "app"), { recursive: true });
+    writeFileSync(join(tmpDir, "spec", "app", "wrangler.json"), JSON.stringify({ name: "my-app" }));
+
+    runCompile();
+
+    const rootConfig = JSON.parse(readFileSync(join(tmpDir, "spec", "wrangler.json"), "utf-8"));
+
+    const docsRoute = rootConfig.vars.ROUTES.routes.find((r: any) => r.binding === "DOCS");
+    assert.deepStrictEqual(docsRoute, {
+      binding: "DOCS",
+      path: "/",
+      host: "docs.example.com",
+      rewriteJs: true,
+      fallthrough: [404, 410],
+      timeout: 5000,
+      errorPage: "/errors/{status}",
+      interceptErrors: true,
+      auth: { type: "basic", credentials: "DOCS_USERS" },
+      cors: { origins: "*" },
+      security: true,
+      rateLimit: { type: "binding", binding: "DOCS_LIMITER" },
+      cache: { html: 60 },
+      rewriteBody: { json: ["hal"], xml: true },
+      sitemap: false,
+      openapi: "/docs/openapi.json",
+    });
+
+    const appRoute = rootConfig.vars.ROUTES.routes.find((r: any) => r.binding === "MY_APP");
+    assert.deepStrictEqual(appRoute, { binding: "MY_APP", path: "/app" });
+  });
+
+  void it("applies route options from vars.WORKERSTACK in wrangler.json", () => {
+    mkdirSync(join(tmpDir, "spec", "app", "api"), { recursive: true });
+    writeFileSync(
+      join(tmpDir, "spec", "app", "api", "wrangler.json"),
+      JSON.stringify({ name: "app-api", vars: { WORKERSTACK: { openapi: true } } }),
+    );
+
+    runCompile();
+
+    const rootConfig = JSON.parse(readFileSync(join(tmpDir, "spec", "wrangler.json"), "utf-8"));
+    assert.deepStrictEqual(rootConfig.vars.ROUTES.routes, [
+      { binding: "APP_API", path: "/app/api", openapi: true },
+    ]);
+  });
+
+  void it("errors when route options are declared twice", () => {
+    mkdirSync(join(tmpDir, "spec", "docs"), { recursive: true });
+    writeFileSync(
+      join(tmpDir, "spec", "docs", "wrangler.json"),
+      JSON.stringify({ name: "docs", vars: { WORKERSTACK: { openapi: true } } }),
+    );
+    writeFileSync(join(tmpDir, "spec", "docs", "workerstack.json"), JSON.stringify({}));
+
+    assert.throws(() => runCompile(), { message: /declared in both "vars.WORKERSTACK"/ });
+  });
+
+  void it("errors on invalid route options", () => {
+    mkdirSync(join(tmpDir, "spec", "docs"), { recursive: true });
+    writeFileSync(join(tmpDir, "spec", "docs", "wrangler.json"), JSON.stringify({ name: "docs" }));
+    writeFileSync(join(tmpDir, "spec", "docs", "workerstack.json"), JSON.stringify({ host: 42 }));
+
+    assert.throws(() => runCompile(), { message: /"host" must be a non-empty string/ });
+  });
+
+  void it("errors on a workerstack block left in wrangler.json", () => {
+    mkdirSync(join(tmpDir, "spec", "docs"), { recursive: true });
+    writeFileSync(
+      join(tmpDir, "spec", "docs", "wrangler.json"),
+      JSON.stringify({ name: "docs", workerstack: { host: "docs.example.com" } }),
+    );
+
+    assert.throws(() => runCompile(), { message: /Move the "workerstack" block/ });
+  });
+
+  void it("emits variant routes and service bindings", () => {
+    mkdirSync(join(tmpDir, "spec", "app"), { recursive: true });
+    writeFileSync(join(tmpDir, "spec", "app", "wrangler.json"), JSON.stringify({ name: "my-app" }));
+    writeFileSync(
+      join(tmpDir, "spec", "app", "workerstack.json"),
+      JSON.stringify({
+        variants: [{ service: "my-app-canary", weight: 10, name: "canary" }],
+        sticky: { header: "x-user-id" },
+      }),
+    );
+
+    runCompile();
+
+    const rootConfig = JSON.parse(readFileSync(join(tmpDir, "spec", "wrangler.json"), "utf-8"));
+
+    assert.deepStrictEqual(rootConfig.vars.ROUTES.routes[0], {
+      binding: "MY_APP",
+      path: "/app",
+      variants: [
+        { binding: "MY_APP", weight: 90, name: "my-app" },
+        { binding: "MY_APP_CANARY", weight: 10, name: "canary" },
+      ],
+      sticky: { header: "x-user-id" },
+    });
+    assert.ok(
+      rootConfig.services.some(
+        (s: any) => s.binding === "MY_APP_CANARY" && s.service === "my-app-canary",
+      ),
+    );
+  });
+
+  void it("errors when variant weights exceed 100", () => {
+    mkdirSync(join(tmpDir, "spec", "app"), { recursive: true });
+    writeFileSync(join(tmpDir, "spec", "app", "wrangler.json"), JSON.stringify({ name: "my-app" }));
+    writeFileSync(
+      join(tmpDir, "spec", "app", "workerstack.json"),
+      JSON.stringify({ variants: [{ service: "my-app-canary", weight: 120 }] }),
+    );
+
+    assert.throws(() => runCompile(), { message: /must not exceed 100/ });
+  });
 });
@@ -11,6 +11,27 @@
  *   <root>/app/wrangler.json         -> /app
  *   <root>/app/auth/wrangler.json    -> /app/auth
  *
+ * A sub-app can tune its route under vars.WORKERSTACK in its wrangler.json:
+ *   { "vars": { "WORKERSTACK": { "host": "docs.example.com", "openapi": true } } }
+ * or with the same options in a workerstack.json next to it:
+ *   { "host": "docs.example.com", "path": "/", "rewriteJs": true }
+ *
+ * Canary or A/B variants name other deployed workers and their traffic share
+ * in percent; the sub-app itself receives the remainder:
+ *   { "variants": [{ "service": "app-canary", "weight": 10 }] }
+ *
+ * An optional <root>/_redirects file lists one rule per line as
+ * "source destination [status]"; status 200 makes the rule a rewrite:
+ *   /blog/:slug   /app/posts/:slug   301
+ *   /docs/*       https://docs.example.com/:splat
+ *   /pricing      /app/plans         200
+ * While the file exists it replaces ROUTES.redirects and ROUTES.rewrites
+ * (marked with "_redirects": true); deleting it removes those rules again.
+ *
+ * Setting ROUTES.analytics in the root wrangler.json adds its Analytics Engine
+ * dataset binding:
+ *   { "vars": { "ROUTES": { "analytics": { "binding": "METRICS", "dataset": "workerstack" } } } }
+ *
  * The entrypoint router (root wrangler.json) should NOT have an assets block.
  * Instead, root-level assets live in a dedicated _root/ worker that is
  * discovered and routed to "/" like any other sub-app.
@@ -39,6 +60,29 @@ interface SubAppEntry {
   path: string;
 }
 
+interface RouteOptions {
+  host?: string;
+  path?: string;
+  rewriteJs?: boolean;
+  csp?: "nonce" | "hash";
+  variants?: { service: string; weight: number; name?: string }[];
+  sticky?: { cookie?: string; header?: string };
+  fallthrough?: boolean | number[];
+  timeout?: number;
+  errorPage?: string;
+  interceptErrors?: boolean | number[];
+  auth?: { type: "jwt" | "basic" | "access"; [key: string]: unknown };
+  cors?: Record<string, unknown> | false;
+  security?: boolean | Record<string, unknown>;
+  headers?: Record<string, unknown>;
+  rateLimit?: { type: "binding" | "durableObject"; binding: string; [key: string]: unknown };
+  cache?: { assets?: number; html?: number; staleWhileRevalidate?: number };
+  rewriteBody?: { json?: string[]; xml?: boolean };
+  sitemap?: boolean;
+  robots?: boolean;
+  openapi?: boolean | string;
+}
+
 interface WranglerConfig {
   name?: string;
   main?: string;
@@ -53,6 +97,25 @@ interface ServiceBinding {
 interface RouteEntry {
   binding: string;
   path: string;
+  host?: string;
+  rewriteJs?: boolean;
+  csp?: "nonce" | "hash";
+  variants?: { binding: string; weight: number; name: string }[];
+  sticky?: { cookie?: string; header?: string };
+  fallthrough?: boolean | number[];
+  timeout?: number;
+  errorPage?: string;
+  interceptErrors?: boolean | number[];
+  auth?: { type: "jwt" | "basic" | "access"; [key: string]: unknown };
+  cors?: Record<string, unknown> | false;
+  security?: boolean | Record<string, unknown>;
+  headers?: Record<string, unknown>;
+  rateLimit?: { type: "binding" | "durableObject"; binding: string; [key: string]: unknown };
+  cache?: { assets?: number; html?: number; staleWhileRevalidate?: number };
+  rewriteBody?: { json?: string[]; xml?: boolean };
+  sitemap?: boolean;
+  robots?: boolean;
+  openapi?: boolean | string;
 }
 
 interface RootConfig {
@@ -150,12 +213,284 @@ function validateEntryPoint(wranglerPath: string, config: WranglerConfig, rootDi
   }
 }
 
+/** Route options sit beside a sub-app's wrangler.json, or in its vars */
+const ROUTE_OPTIONS_FILE = "workerstack.json";
+const ROUTE_OPTIONS_VAR = "WORKERSTACK";
+
+/**
+ * Reads the optional route options of a sub-app, declared either in its
+ * wrangler.json as `vars.WORKERSTACK` or in a workerstack.json next to it.
+ * Wrangler warns about unknown top-level fields, so a top-level "workerstack"
+ * block is rejected. Returns null (and records an error) when the options are
+ * malformed.
+ */
+function readRouteOptions(
+  config: WranglerConfig,
+  wranglerPath: string,
+  errors: string[],
+): RouteOptions | null {
+  const filePath = join(dirname(wranglerPath), ROUTE_OPTIONS_FILE);
+  const fromVars = (config.vars as Record<string, unknown> | undefined)?.[ROUTE_OPTIONS_VAR];
+  if ("workerstack" in config) {
+    errors.push(
+      `Move the "workerstack" block in ${wranglerPath} to "vars.${ROUTE_OPTIONS_VAR}" or ${filePath}.`,
+    );
+    return null;
+  }
+  if (fromVars !== undefined && existsSync(filePath)) {
+    errors.push(
+      `Route options are declared in both "vars.${ROUTE_OPTIONS_VAR}" of ${wranglerPath} and ${filePath}.`,
+    );
+    return null;
+  }
+
+  let options: RouteOptions;
+  let optionsPath: string;
+  if (fromVars !== undefined) {
+    options = fromVars as RouteOptions;
+    optionsPath = `"vars.${ROUTE_OPTIONS_VAR}" of ${wranglerPath}`;
+  } else if (existsSync(filePath)) {
+    optionsPath = filePath;
+    try {
+      options = JSON.parse(readFileSync(filePath, "utf-8"));
+    } catch (e) {
+      errors.push(`Failed to parse ${filePath}: ${e instanceof Error ? e.message : String(e)}`);
+      return null;
+    }
+  } else {
+    return {};
+  }
+
+  if (!options || typeof options !== "object" || Array.isArray(options)) {
+    errors.push(`Route options must be an object in ${optionsPath}.`);
+    return null;
+  }
+
+  for (const key of ["host", "path", "errorPage"] as const) {
+    if (options[key] !== undefined && (typeof options[key] !== "string" || !options[key])) {
+      errors.push(`"${key}" must be a non-empty string in ${optionsPath}.`);
+      return null;
+    }
+  }
+
+  if (
+    options.timeout !== undefined &&
+    !(typeof options.timeout === "number" && options.timeout > 0)
+  ) {
+    errors.push(`"timeout" must be a positive number of milliseconds in ${optionsPath}.`);
+    return null;
+  }
+
+  for (const key of ["rewriteJs", "sitemap", "robots"] as const) {
+    if (options[key] !== undefined && typeof options[key] !== "boolean") {
+      errors.push(`"${key}" must be a boolean in ${optionsPath}.`);
+      return null;
+    }
+  }
+
+  if (options.csp !== undefined && options.csp !== "nonce" && options.csp !== "hash") {
+    errors.push(`"csp" must be "nonce" or "hash" in ${optionsPath}.`);
+    return null;
+  }
+
+  if (options.variants !== undefined) {
+    const variants = options.variants;
+    const valid =
+      Array.isArray(variants) &&
+      variants.every(
+        (v) =>
+          v &&
+          typeof v.service === "string" &&
+          v.service &&
+          typeof v.weight === "number" &&
+          v.weight >= 0 &&
+          (v.name === undefined || typeof v.name === "string"),
+      );
+    if (!valid) {
+      errors.push(`"variants" must be an array of { service, weight, name? } in ${optionsPath}.`);
+      return null;
+    }
+    if (variants.reduce((sum, v) => sum + v.weight, 0) > 100) {
+      errors.push(`"variants" weights must not exceed 100 in ${optionsPath}.`);
+      return null;
+    }
+  }
+
+  if (
+    options.auth !== undefined &&
+    (!options.auth ||
+      typeof options.auth !== "object" ||
+      !["jwt", "basic", "access"].includes(options.auth.type))
+  ) {
+    errors.push(`"auth.type" must be "jwt", "basic" or "access" in ${optionsPath}.`);
+    return null;
+  }
+
+  if (
+    options.cache !== undefined &&
+    (!options.cache ||
+      typeof options.cache !== "object" ||
+      Object.values(options.cache).some((ttl) => typeof ttl !== "number" || ttl < 0))
+  ) {
+    errors.push(`"cache" values must be numbers of seconds in ${optionsPath}.`);
+    return null;
+  }
+
+  const rewriteBody = options.rewriteBody;
+  if (
+    rewriteBody !== undefined &&
+    (!rewriteBody ||
+      typeof rewriteBody !== "object" ||
+      (rewriteBody.json !== undefined &&
+        !(
+          Array.isArray(rewriteBody.json) &&
+          rewriteBody.json.every((pointer) => typeof pointer === "string")
+        )) ||
+      (rewriteBody.xml !== undefined && typeof rewriteBody.xml !== "boolean"))
+  ) {
+    errors.push(`"rewriteBody" must be { json?: string[], xml?: boolean } in ${optionsPath}.`);
+    return null;
+  }
+
+  if (
+    options.openapi !== undefined &&
+    typeof options.openapi !== "boolean" &&
+    !(typeof options.openapi === "string" && options.openapi.startsWith("/"))
+  ) {
+    errors.push(`"openapi" must be a boolean or a path in ${optionsPath}.`);
+    return null;
+  }
+
+  for (const key of ["cors", "security", "headers"] as const) {
+    const value = options[key];
+    if (
+      value !== undefined &&
+      typeof value !== "boolean" &&
+      (!value || typeof value !== "object" || Array.isArray(value))
+    ) {
+      errors.push(`"${key}" must be an object in ${optionsPath}.`);
+      return null;
+    }
+  }
+
+  if (
+    options.rateLimit !== undefined &&
+    (!options.rateLimit ||
+      !["binding", "durableObject"].includes(options.rateLimit.type) ||
+      typeof options.rateLimit.binding !== "string")
+  ) {
+    errors.push(
+      `"rateLimit" needs a type ("binding" or "durableObject") and a binding in ${optionsPath}.`,
+    );
+    return null;
+  }
+
+  if (
+    options.sticky !== undefined &&
+    (!options.sticky ||
+      typeof options.sticky !== "object" ||
+      (options.sticky.cookie !== undefined && typeof options.sticky.cookie !== "string") ||
+      (options.sticky.header !== undefined && typeof options.sticky.header !== "string"))
+  ) {
+    errors.push(`"sticky" must be { cookie?: string, header?: string } in ${optionsPath}.`);
+    return null;
+  }
+
+  for (const key of ["fallthrough", "interceptErrors"] as const) {
+    const value = options[key];
+    if (
+      value !== undefined &&
+      typeof value !== "boolean" &&
+      !(Array.isArray(value) && value.every(Number.isInteger))
+    ) {
+      errors.push(`"${key}" must be a boolean or an array of status codes in ${optionsPath}.`);
+      return null;
+    }
+  }
+
+  return options;
+}
+
 /**
  * Directory name for the root-content worker.
  * A sub-app in this directory is mapped to route "/" instead of "/_root".
  */
 const ROOT_CONTENT_DIR = "_root";
 
+const REDIRECTS_FILE = "_redirects";
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+interface PathRules {
+  redirects: { source: string; destination: string; status?: number }[];
+  rewrites: { source: string; destination: string }[];
+}
+
+/**
+ * Parse <root>/_redirects into redirect and rewrite rules.
+ * A trailing "/*" in the source captures the rest of the path as :splat.
+ */
+function readRedirectsFile(rootDir: string, errors: string[]): PathRules | null {
+  const filePath = join(rootDir, REDIRECTS_FILE);
+  if (!existsSync(filePath)) return null;
+
+  const rules: PathRules = { redirects: [], rewrites: [] };
+  const lines = readFileSync(filePath, "utf-8").split(/\r?\n/);
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) return;
+
+    const [from, destination, statusRaw, ...rest] = line.split(/\s+/);
+    const status = statusRaw === undefined ? 302 : Number(statusRaw);
+    if (!destination || rest.length > 0 || !from.startsWith("/")) {
+      errors.push(`Invalid rule on line ${i + 1} of ${filePath}: "${line}".`);
+      return;
+    }
+    const source = from.endsWith("/*") ? `${from.slice(0, -2)}/:splat*` : from;
+    if (status === 200) {
+      if (!destination.startsWith("/")) {
+        errors.push(`Rewrite on line ${i + 1} of ${filePath} must target a path.`);
+        return;
+      }
+      rules.rewrites.push({ source, destination });
+    } else if (REDIRECT_STATUSES.includes(status)) {
+      rules.redirects.push(
+        statusRaw === undefined ? { source, destination } : { source, destination, status },
+      );
+    } else {
+      errors.push(`Invalid status "${statusRaw}" on line ${i + 1} of ${filePath}.`);
+    }
+  });
+
+  return rules;
+}
+
+const DEFAULT_ANALYTICS_DATASET = "workerstack";
+
+interface AnalyticsDataset {
+  binding: string;
+  dataset: string;
+}
+
+/** Read the Analytics Engine dataset the router writes to from the root ROUTES */
+function readAnalyticsOptions(
+  rootConfig: RootConfig,
+  wranglerPath: string,
+  errors: string[],
+): AnalyticsDataset | null {
+  const routes = rootConfig.vars?.ROUTES as { analytics?: Record<string, unknown> } | undefined;
+  const analytics = routes?.analytics;
+  if (analytics === undefined) return null;
+
+  const { binding, dataset = DEFAULT_ANALYTICS_DATASET } = analytics ?? {};
+  if (typeof binding !== "string" || !binding || typeof dataset !== "string" || !dataset) {
+    errors.push(
+      `"ROUTES.analytics" must have a non-empty "binding" and optional "dataset" in ${wranglerPath}.`,
+    );
+    return null;
+  }
+  return { binding, dataset };
+}
+
 /**
  * Main compile function.
  * Reads sub-app wrangler.json files and generates the root wrangler.json.
@@ -203,6 +538,7 @@ export function compile(rootDir: string): void {
 
   const services: ServiceBinding[] = [];
   const routes: RouteEntry[] = [];
+  const variantServices: ServiceBinding[] = [];
   const seenNames = new Map<string, string>();
   const seenBindings = new Map<string, string>();
 
@@ -244,22 +580,70 @@ export function compile(rootDir: string): void {
     // Edge case 2: validate worker entry point exists
     validateEntryPoint(subApp.path, config, rootDir);
 
+    const options = readRouteOptions(config, subApp.path, errors);
+    if (!options) continue;
+
     // _root is the root-content worker → route to "/"
-    const routePath = subApp.dir === ROOT_CONTENT_DIR ? "/" : dirToRoute(subApp.dir);
+    const routePath =
+      options.path ?? (subApp.dir === ROOT_CONTENT_DIR ? "/" : dirToRoute(subApp.dir));
 
     services.push({
       binding,
       service: serviceName,
     });
 
-    routes.push({
-      binding,
-      path: routePath,
-    });
+    const route: RouteEntry = { binding, path: routePath };
+    if (options.host) route.host = options.host;
+    if (options.rewriteJs !== undefined) route.rewriteJs = options.rewriteJs;
+    if (options.csp) route.csp = options.csp;
+    if (options.variants) {
+      const variants = options.variants.map((v) => ({
+        binding: toBindingName(v.service),
+        weight: v.weight,
+        name: v.name ?? v.service,
+      }));
+      for (const v of options.variants) {
+        variantServices.push({ binding: toBindingName(v.service), service: v.service });
+      }
+      const remainder = 100 - options.variants.reduce((sum, v) => sum + v.weight, 0);
+      route.variants = [{ binding, weight: remainder, name: serviceName }, ...variants];
+    }
+    if (options.sticky) route.sticky = options.sticky;
+    if (options.fallthrough) route.fallthrough = options.fallthrough;
+    if (options.timeout) route.timeout = options.timeout;
+    if (options.errorPage) route.errorPage = options.errorPage;
+    if (options.interceptErrors) route.interceptErrors = options.interceptErrors;
+    if (options.auth) route.auth = options.auth;
+    if (options.cors !== undefined) route.cors = options.cors;
+    if (options.security !== undefined) route.security = options.security;
+    if (options.headers) route.headers = options.headers;
+    if (options.rateLimit) route.rateLimit = options.rateLimit;
+    if (options.cache) route.cache = options.cache;
+    if (options.rewriteBody) route.rewriteBody = options.rewriteBody;
+    if (options.sitemap !== undefined) route.sitemap = options.sitemap;
+    if (options.robots !== undefined) route.robots = options.robots;
+    if (options.openapi) route.openapi = options.openapi;
+    routes.push(route);
 
-    console.log(`  ${subApp.dir}/ -> ${routePath} (${serviceName} as ${binding})`);
+    console.log(
+      `  ${subApp.dir}/ -> ${options.host ?? ""}${routePath} (${serviceName} as ${binding})`,
+    );
   }
 
+  // Variant workers are deployed separately; bind each one once
+  for (const variant of variantServices) {
+    const existing = services.find((s) => s.binding === variant.binding);
+    if (!existing) services.push(variant);
+    else if (existing.service !== variant.service) {
+      errors.push(
+        `Variant service "${variant.service}" conflicts with binding "${variant.binding}" of "${existing.service}".`,
+      );
+    }
+  }
+
+  const pathRules = readRedirectsFile(rootDir, errors);
+  const analytics = readAnalyticsOptions(rootConfig, rootWranglerPath, errors);
+
   // Abort on errors
   if (errors.length > 0) {
     console.error("\nCompilation errors:");
@@ -318,9 +702,38 @@ export function compile(rootDir: string): void {
   // Set service bindings
   rootConfig.services = services;
 
-  // Set ROUTES var
+  // Set ROUTES var, keeping hand-written global options such as errorPage
   rootConfig.vars = rootConfig.vars || {};
-  rootConfig.vars.ROUTES = { routes };
+  const existingRoutes = rootConfig.vars.ROUTES;
+  const globals =
+    existingRoutes && typeof existingRoutes === "object" && !Array.isArray(existingRoutes)
+      ? existingRoutes
+      : {};
+  const compiledRoutes: Record<string, unknown> = { ...globals, routes };
+  // _redirects is the source of truth for both rule lists while it exists. The
+  // marker lets a later build drop its rules once the file is deleted, while
+  // rules written by hand into ROUTES are kept.
+  if (pathRules) {
+    compiledRoutes.redirects = pathRules.redirects;
+    compiledRoutes.rewrites = pathRules.rewrites;
+    compiledRoutes[REDIRECTS_FILE] = true;
+  } else if (compiledRoutes[REDIRECTS_FILE]) {
+    delete compiledRoutes.redirects;
+    delete compiledRoutes.rewrites;
+    delete compiledRoutes[REDIRECTS_FILE];
+  }
+  rootConfig.vars.ROUTES = compiledRoutes;
+
+  // Bind the metrics dataset once, leaving other datasets alone
+  if (analytics) {
+    const datasets = Array.isArray(rootConfig.analytics_engine_datasets)
+      ? (rootConfig.analytics_engine_datasets as AnalyticsDataset[])
+      : [];
+    rootConfig.analytics_engine_datasets = [
+      ...datasets.filter((d) => d.binding !== analytics.binding),
+      analytics,
+    ];
+  }
 
   // Write the compiled root wrangler.json
   writeFileSync(rootWranglerPath, JSON.stringify(rootConfig, null, 2) + "\n");
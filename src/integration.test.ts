@@ -1,8 +1,10 @@
 import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
 import { mkdtempSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { after, before, describe, it } from "node:test";
+import { runInNewContext } from "node:vm";
 import { unstable_startWorker as startWorker } from "wrangler";
 
 let worker: Awaited<ReturnType<typeof startWorker>>;
@@ -49,9 +51,9 @@ after(async () => {
   await Promise.all(workers?.map((w) => w.dispose()) ?? []);
 });
 
-async function fetchWorker(path: string): Promise<Response> {
+async function fetchWorker(path: string, init?: RequestInit): Promise<Response> {
   const url = await worker.url;
-  return fetch(new URL(path, url));
+  return fetch(new URL(path, url), init);
 }
 
 void describe("WorkerStack Router", () => {
@@ -123,5 +125,278 @@ void describe("WorkerStack Router", () => {
       assert.ok(html.includes("workerstack:/"));
       assert.ok(html.includes("globalThis.fetch"));
     });
+
+    void it("scopes service worker registrations to the mount", async () => {
+      const response = await fetchWorker("/app");
+      const html = await response.text();
+      const script = html.match(/<script[^>]*>(window\.__BASE_PATH__.*?)<\/script>/)?.[1] ?? "";
+
+      const calls: unknown[][] = [];
+      const navigator = { serviceWorker: { register: (...args: unknown[]) => calls.push(args) } };
+      runInNewContext(script, { window: {}, globalThis: {}, navigator });
+      navigator.serviceWorker.register("/sw.js", { scope: "/" });
+      navigator.serviceWorker.register("/app/sw.js");
+      navigator.serviceWorker.register("sw.js");
+
+      // Options built inside the script come from the other realm
+      const normalized = calls.map(([url, options]) => [url, options && { ...options }]);
+      assert.deepStrictEqual(normalized, [
+        ["/app/sw.js", { scope: "/app/" }],
+        ["/app/sw.js", undefined],
+        ["sw.js", undefined],
+      ]);
+    });
+  });
+
+  void describe("client runtime", () => {
+    void it("loads the runtime module with the host's mounts", async () => {
+      const html = await (await fetchWorker("/")).text();
+      assert.ok(html.includes('<script type="module" src="/__workerstack/client.js"></script>'));
+
+      const response = await fetchWorker("/__workerstack/client.js");
+      const source = await response.text();
+      assert.strictEqual(response.headers.get("content-type"), "text/javascript; charset=utf-8");
+      assert.ok(source.includes('"APP_API":"/app/api"'));
+      assert.match(source, /export\{\w+ as mountUrl,\w+ as crossMountUrl\};/);
+    });
+  });
+
+  void describe("streaming", () => {
+    void it("streams rewritten HTML before the upstream body finishes", async () => {
+      const start = Date.now();
+      // Compressed responses are buffered by the encoder, so ask for identity
+      const response = await fetchWorker("/app/api/stream?delay=1500", {
+        headers: { "accept-encoding": "identity" },
+      });
+      const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+
+      let head = "";
+      while (!head.includes("<p>first</p>")) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        head += value;
+      }
+      const firstBytesAt = Date.now() - start;
+
+      assert.ok(head.includes('window.__BASE_PATH__="/app/api"'));
+      assert.ok(!head.includes("late.png"));
+
+      let rest = "";
+      for (let r = await reader.read(); !r.done; r = await reader.read()) rest += r.value;
+      const finishedAt = Date.now() - start;
+
+      assert.ok(rest.includes('src="/app/api/assets/late.png"'));
+      assert.ok(firstBytesAt < finishedAt - 1000, `first bytes at ${firstBytesAt}ms`);
+    });
+  });
+
+  void describe("upgrades and long-lived streams", () => {
+    void it("passes WebSocket upgrades through with the mount stripped", async () => {
+      const url = new URL("/app/api/ws", await worker.url);
+      url.protocol = url.protocol.replace("http", "ws");
+      const socket = new WebSocket(url);
+
+      const message = await new Promise<string>((resolve, reject) => {
+        socket.addEventListener("open", () => socket.send("ping"));
+        socket.addEventListener("message", (event) => resolve(String(event.data)));
+        socket.addEventListener("error", () => reject(new Error("WebSocket failed")));
+      });
+      socket.close();
+
+      assert.deepStrictEqual(JSON.parse(message), {
+        echo: "ping",
+        path: "/ws",
+        mount: "/app/api",
+      });
+    });
+
+    void it("streams Server-Sent Events untouched", async () => {
+      const start = Date.now();
+      const response = await fetchWorker("/app/api/events?delay=1000", {
+        headers: { accept: "text/event-stream", "accept-encoding": "identity" },
+      });
+      const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+
+      assert.strictEqual(response.headers.get("content-type"), "text/event-stream");
+
+      const first = await reader.read();
+      const firstAt = Date.now() - start;
+      assert.strictEqual(first.value, "data: first\n\n");
+
+      let rest = "";
+      for (let r = await reader.read(); !r.done; r = await reader.read()) rest += r.value;
+      assert.strictEqual(rest, "data: second\n\n");
+      assert.ok(firstAt < 800, `first event at ${firstAt}ms`);
+    });
+  });
+
+  void describe("JavaScript rewriting", () => {
+    void it("rewrites import maps and inline module scripts", async () => {
+      const response = await fetchWorker("/app/api/modules");
+      const html = await response.text();
+
+      assert.ok(html.includes('"lib":"/app/api/assets/lib.js"'));
+      assert.ok(html.includes('"/app/api/assets/dep.js":"/app/api/assets/dep-1.js"'));
+      assert.ok(html.includes('import("/app/api/assets/chunk.js")'));
+    });
+
+    void it("keeps rewritten import maps inside their script element", async () => {
+      const response = await fetchWorker("/app/api/modules");
+      const html = await response.text();
+
+      assert.ok(html.includes('"tag":"/app/api/assets/tag.js?\\u003c/script>"'));
+      assert.ok(!html.includes("tag.js?</script>"));
+    });
+
+    void it("rewrites asset literals in JavaScript responses", async () => {
+      const response = await fetchWorker("/app/api/module.js");
+      const js = await response.text();
+
+      assert.ok(js.includes('new URL("/app/api/assets/x.wasm", import.meta.url)'));
+    });
+  });
+
+  void describe("content security policy", () => {
+    void it("reuses the upstream nonce for injected scripts", async () => {
+      const response = await fetchWorker("/app/api/csp?nonce=abc");
+      const html = await response.text();
+
+      assert.strictEqual(
+        response.headers.get("content-security-policy"),
+        "script-src 'self' 'nonce-abc'; style-src 'self'",
+      );
+      assert.ok(html.includes('<script nonce="abc">window.__BASE_PATH__="/app/api"'));
+    });
+
+    void it("generates a nonce and adds it without weakening the policy", async () => {
+      const response = await fetchWorker("/app/api/csp");
+      const csp = response.headers.get("content-security-policy")!;
+      const nonce = (await response.text()).match(/<script nonce="([^"]+)">/)?.[1];
+
+      assert.ok(nonce);
+      assert.strictEqual(
+        csp,
+        `default-src 'self'; style-src 'self' 'unsafe-inline'; script-src 'self' 'nonce-${nonce}'`,
+      );
+    });
+
+    void it("allows static injections by hash in hash mode", async () => {
+      const response = await fetchWorker("/csp");
+      const html = await response.text();
+      const script = html.match(/<script>(.*?)<\/script>/)?.[1] ?? "";
+      const hash = createHash("sha256").update(script).digest("base64");
+
+      assert.ok(script.startsWith('window.__BASE_PATH__="/"'));
+      assert.strictEqual(
+        response.headers.get("content-security-policy"),
+        `default-src 'self'; script-src 'self' 'sha256-${hash}'`,
+      );
+    });
+
+    void it("allows the base element through base-uri", async () => {
+      const response = await fetchWorker("/app/api/csp?nonce=abc&base=none");
+      const html = await response.text();
+      const origin = new URL(await worker.url).origin;
+
+      assert.ok(html.includes('<base href="/app/api/">'));
+      assert.strictEqual(
+        response.headers.get("content-security-policy"),
+        `script-src 'self' 'nonce-abc'; style-src 'self'; base-uri ${origin}/app/api/`,
+      );
+    });
+
+    void it("allows injected script elements by URL in hash mode", async () => {
+      const response = await fetchWorker("/csp-strict");
+      const html = await response.text();
+      const script = html.match(/<script>(.*?)<\/script>/)?.[1] ?? "";
+      const hash = createHash("sha256").update(script).digest("base64");
+      const origin = new URL(await worker.url).origin;
+
+      assert.ok(html.includes('<script type="module" src="/__workerstack/client.js"></script>'));
+      assert.strictEqual(
+        response.headers.get("content-security-policy"),
+        `script-src 'sha256-${hash}' ${origin}/__workerstack/client.js; base-uri ${origin}/`,
+      );
+    });
+  });
+
+  void describe("fragment composition", () => {
+    void it("splices fragments fetched through the route table", async () => {
+      // Warm up the workers so cold starts don't skew the timing below
+      await (await fetchWorker("/app/api/fragments")).text();
+
+      const start = Date.now();
+      const response = await fetchWorker("/app/api/fragments");
+      const html = await response.text();
+      const elapsed = Date.now() - start;
+
+      assert.ok(!html.includes("workerstack-fragment"));
+      assert.ok(!html.includes("<!--wsf:"));
+      assert.ok(html.includes('<header><img src="/app/api/assets/logo.svg">Header</header>'));
+      assert.ok(html.includes("<p>slow 400</p><p>slow 400</p>"));
+      // Both 400ms fragments load in parallel
+      assert.ok(elapsed < 750, `took ${elapsed}ms`);
+    });
+
+    void it("renders fallback content on timeout, error and depth limit", async () => {
+      const response = await fetchWorker("/app/api/fragments");
+      const html = await response.text();
+
+      assert.ok(html.includes("<p>timed out</p>"));
+      assert.ok(html.includes("missing"));
+      assert.ok(html.includes("<i>nested</i><i>nested</i><i>nested</i><b>depth limit</b>"));
+    });
+
+    void it("routes fragments at their path, past redirect rules", async () => {
+      const redirected = await fetchWorker("/app/api/fragment/footer", { redirect: "manual" });
+      assert.strictEqual(redirected.status, 301);
+
+      const html = await (await fetchWorker("/app/api/fragments")).text();
+      assert.ok(html.includes("<footer>Footer</footer>"));
+      assert.ok(!html.includes("no footer"));
+    });
+  });
+
+  void describe("error handling", () => {
+    void it("serves the branded error page when an upstream fails", async () => {
+      const response = await fetchWorker("/app/api/throw", { headers: { accept: "text/html" } });
+      const html = await response.text();
+
+      assert.strictEqual(response.status, 500);
+      assert.ok(response.headers.get("x-request-id"));
+      assert.ok(html.includes("<h1>Something went wrong</h1>"));
+    });
+
+    void it("returns a JSON envelope to JSON clients", async () => {
+      const response = await fetchWorker("/app/api/throw", {
+        headers: { accept: "application/json" },
+      });
+      const body = (await response.json()) as any;
+
+      assert.strictEqual(response.status, 500);
+      assert.strictEqual(body.error.status, 500);
+      assert.strictEqual(body.error.requestId, response.headers.get("x-request-id"));
+    });
+  });
+
+  void describe("edge caching", () => {
+    void it("caches rewritten HTML for the mount", async () => {
+      await (await fetchWorker("/app")).text();
+      const response = await fetchWorker("/app");
+      const html = await response.text();
+
+      assert.strictEqual(response.headers.get("x-workerstack-cache"), "HIT");
+      assert.ok(html.includes('window.__BASE_PATH__="/app"'));
+    });
+
+    void it("answers If-None-Match with 304 for rewritten HTML", async () => {
+      const response = await fetchWorker("/app");
+      await response.text();
+      const etag = response.headers.get("etag");
+
+      assert.match(etag ?? "", /^W\/"/);
+      const conditional = await fetchWorker("/app", { headers: { "if-none-match": etag! } });
+      assert.strictEqual(conditional.status, 304);
+    });
   });
 });
@@ -1,10 +1,12 @@
 import assert from "node:assert/strict";
 import { register } from "node:module";
-import { describe, it } from "node:test";
+import { afterEach, describe, it } from "node:test";
+import { runInNewContext } from "node:vm";
+import { crossMountUrl, mountUrl } from "./client.ts";
 
 register("./cloudflare-loader.ts", { parentURL: import.meta.url });
 
-const { workerstack } = await import("./workerstack.ts");
+const { workerstack, getRouteInfo, getIdentity, RateLimiter } = await import("./workerstack.ts");
 
 /* ----------------------------- helpers ----------------------------- */
 
@@ -50,94 +52,2804 @@ function echoPathFetcher() {
   });
 }
 
+function base64Url(input: string | ArrayBuffer): string {
+  const bytes = typeof input === "string" ? new TextEncoder().encode(input) : new Uint8Array(input);
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+const JWT_SECRET = "jwt-shared-secret";
+const hmacKey = await crypto.subtle.importKey(
+  "raw",
+  new TextEncoder().encode(JWT_SECRET),
+  { name: "HMAC", hash: "SHA-256" },
+  false,
+  ["sign"],
+);
+
+async function signJwt(
+  claims: Record<string, unknown>,
+  key: CryptoKey,
+  header: Record<string, string> = { alg: "HS256" },
+): Promise<string> {
+  const data = `${base64Url(JSON.stringify({ typ: "JWT", ...header }))}.${base64Url(JSON.stringify(claims))}`;
+  const algorithm = header.alg === "HS256" ? "HMAC" : "RSASSA-PKCS1-v1_5";
+  const signature = await crypto.subtle.sign(algorithm, key, new TextEncoder().encode(data));
+  return `${data}.${base64Url(signature)}`;
+}
+
 /* ----------------------------- tests ----------------------------- */
 
-void describe("WorkerStack", () => {
-  void describe("routing", () => {
-    void it("routes request to matching binding", async () => {
+void describe("WorkerStack", () => {
+  void describe("routing", () => {
+    void it("routes request to matching binding", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app" }] },
+        APP: jsonFetcher({ service: "app" }),
+      };
+
+      const resp = await workerstack(new Request("https://example.com/app"), env as any);
+      assert.strictEqual(resp.status, 200);
+      assert.deepStrictEqual(await resp.json(), { service: "app" });
+    });
+
+    void it("strips mount prefix before forwarding", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app" }] },
+        APP: echoPathFetcher(),
+      };
+
+      const resp = await workerstack(new Request("https://example.com/app/page"), env as any);
+      assert.deepStrictEqual(await resp.json(), { path: "/page" });
+    });
+
+    void it("forwards mount root as /", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app" }] },
+        APP: echoPathFetcher(),
+      };
+
+      const resp = await workerstack(new Request("https://example.com/app"), env as any);
+      assert.deepStrictEqual(await resp.json(), { path: "/" });
+    });
+
+    void it("selects most specific route by path length", async () => {
+      const env = {
+        ROUTES: {
+          routes: [
+            { binding: "APP", path: "/app" },
+            { binding: "API", path: "/app/api" },
+          ],
+        },
+        APP: jsonFetcher({ service: "app" }),
+        API: jsonFetcher({ service: "api" }),
+      };
+
+      const resp = await workerstack(new Request("https://example.com/app/api/users"), env as any);
+      assert.deepStrictEqual(await resp.json(), { service: "api" });
+    });
+
+    void it("falls back to root route for unmatched paths", async () => {
+      const env = {
+        ROUTES: {
+          routes: [
+            { binding: "ROOT", path: "/" },
+            { binding: "APP", path: "/app" },
+          ],
+        },
+        ROOT: jsonFetcher({ service: "root" }),
+        APP: jsonFetcher({ service: "app" }),
+      };
+
+      const resp = await workerstack(new Request("https://example.com/other"), env as any);
+      assert.deepStrictEqual(await resp.json(), { service: "root" });
+    });
+
+    void it("returns 404 when no route matches and no root", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app" }] },
+        APP: jsonFetcher({ service: "app" }),
+      };
+
+      const resp = await workerstack(new Request("https://example.com/other"), env as any);
+      assert.strictEqual(resp.status, 404);
+    });
+
+    void it("matches sub-paths under a mount", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "DOCS", path: "/docs" }] },
+        DOCS: echoPathFetcher(),
+      };
+
+      const resp = await workerstack(
+        new Request("https://example.com/docs/getting-started"),
+        env as any,
+      );
+      assert.deepStrictEqual(await resp.json(), { path: "/getting-started" });
+    });
+  });
+
+  void describe("router cache", () => {
+    void it("reuses the compiled router for the same env", async () => {
+      let bindingReads = 0;
+      const app = jsonFetcher({ service: "app" });
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app" }] },
+        get APP() {
+          bindingReads++;
+          return app;
+        },
+      };
+
+      await workerstack(new Request("https://example.com/app"), env as any);
+      await workerstack(new Request("https://example.com/app/page"), env as any);
+      assert.strictEqual(bindingReads, 1);
+    });
+
+    void it("recompiles when ROUTES changes on the same env", async () => {
+      const env: Record<string, unknown> = {
+        ROUTES: JSON.stringify({ routes: [{ binding: "APP", path: "/app" }] }),
+        APP: jsonFetcher({ service: "app" }),
+        DOCS: jsonFetcher({ service: "docs" }),
+      };
+
+      const before = await workerstack(new Request("https://example.com/docs"), env as any);
+      assert.strictEqual(before.status, 404);
+
+      env.ROUTES = JSON.stringify({ routes: [{ binding: "DOCS", path: "/docs" }] });
+      const after = await workerstack(new Request("https://example.com/docs"), env as any);
+      assert.deepStrictEqual(await after.json(), { service: "docs" });
+    });
+
+    void it("matches dynamic expressions alongside static mounts", async () => {
+      const env = {
+        ROUTES: {
+          routes: [
+            { binding: "APP", path: "/app" },
+            { binding: "ORG", path: "/org/:org/app" },
+          ],
+        },
+        APP: jsonFetcher({ service: "app" }),
+        ORG: echoPathFetcher(),
+      };
+
+      const resp = await workerstack(
+        new Request("https://example.com/org/acme/app/settings"),
+        env as any,
+      );
+      assert.deepStrictEqual(await resp.json(), { path: "/settings" });
+    });
+
+    void it("recompiles when vars or secrets read while compiling change", async () => {
+      const env: Record<string, unknown> = {
+        ROUTES: {
+          routes: [{ binding: "APP", path: "/app", auth: { type: "basic", credentials: "USERS" } }],
+        },
+        APP: jsonFetcher({ service: "app" }),
+        USERS: "alice:one",
+        WORKERSTACK_IDENTITY_SECRET: "signing-key",
+      };
+      const fetchAs = (password: string) =>
+        workerstack(
+          new Request("https://example.com/app", {
+            headers: { authorization: `Basic ${btoa(`alice:${password}`)}` },
+          }),
+          env as any,
+        );
+
+      const untraced = await fetchAs("one");
+      assert.strictEqual(untraced.status, 200);
+      assert.strictEqual(untraced.headers.get("server-timing"), null);
+
+      env.WORKERSTACK_TRACING = "true";
+      assert.match((await fetchAs("one")).headers.get("server-timing")!, /route;dur=/);
+
+      env.USERS = "alice:two";
+      assert.strictEqual((await fetchAs("one")).status, 401);
+      assert.strictEqual((await fetchAs("two")).status, 200);
+    });
+
+    void it("benchmarks cached routing against per-request compilation", async (t) => {
+      const routes = Array.from({ length: 40 }, (_, i) => ({
+        binding: "APP",
+        path: i % 4 === 0 ? `/org/:org/app${i}` : `/app${i}/section`,
+      }));
+      let compiles = 0;
+      const app = mockFetcher(() => new Response(null, { status: 204 }));
+      const env = {
+        ROUTES: JSON.stringify({ routes: [{ binding: "APP", path: "/" }, ...routes] }),
+        // Bindings are only read while compiling, once per route
+        get APP() {
+          compiles++;
+          return app;
+        },
+      };
+      const paths = ["/app39/section/page", "/org/acme/app36/x", "/unmatched/path"];
+      const iterations = 1500;
+
+      const run = async (envFor: () => object) => {
+        compiles = 0;
+        const start = performance.now();
+        for (let i = 0; i < iterations; i++) {
+          const path = paths[i % paths.length];
+          await workerstack(new Request(`https://example.com${path}`), envFor() as any);
+        }
+        return { ms: performance.now() - start, compiles: compiles / (routes.length + 1) };
+      };
+
+      // Warm up both paths before measuring
+      await run(() => env);
+      await run(() => Object.create(env));
+
+      const cached = await run(() => env);
+      const uncached = await run(() => Object.create(env));
+
+      t.diagnostic(
+        `${iterations} requests / 41 routes: cached ${cached.ms.toFixed(1)}ms, uncached ${uncached.ms.toFixed(1)}ms`,
+      );
+      assert.strictEqual(cached.compiles, 0);
+      assert.strictEqual(uncached.compiles, iterations);
+    });
+  });
+
+  void describe("route params", () => {
+    function routeInfoFetcher() {
+      return mockFetcher((req) => Response.json(getRouteInfo(req)));
+    }
+
+    void it("forwards named params, mount and route expression", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "ORG", path: "/org/:org/app" }] },
+        ORG: routeInfoFetcher(),
+      };
+
+      const resp = await workerstack(new Request("https://example.com/org/acme/app/x"), env as any);
+      assert.deepStrictEqual(await resp.json(), {
+        params: { org: "acme" },
+        mount: "/org/acme/app",
+        route: "/org/:org/app",
+      });
+    });
+
+    void it("captures custom regex, * and + params", async () => {
+      const env = {
+        ROUTES: {
+          routes: [
+            { binding: "V", path: "/v:version([0-9]+)/:rest*" },
+            { binding: "F", path: "/files/:path+" },
+          ],
+        },
+        V: routeInfoFetcher(),
+        F: routeInfoFetcher(),
+      };
+
+      const v = await workerstack(new Request("https://example.com/v2/a/b"), env as any);
+      assert.deepStrictEqual(((await v.json()) as any).params, { version: "2", rest: "a/b" });
+
+      const f = await workerstack(new Request("https://example.com/files/docs/a%20b"), env as any);
+      assert.deepStrictEqual(((await f.json()) as any).params, { path: "docs/a b" });
+    });
+
+    void it("sends empty params for static mounts", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app" }] },
+        APP: routeInfoFetcher(),
+      };
+
+      const resp = await workerstack(new Request("https://example.com/app"), env as any);
+      assert.deepStrictEqual(await resp.json(), { params: {}, mount: "/app", route: "/app" });
+    });
+
+    void it("overwrites client-supplied route headers", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app" }] },
+        APP: routeInfoFetcher(),
+      };
+
+      const resp = await workerstack(
+        new Request("https://example.com/app", {
+          headers: { "x-workerstack-params": '{"admin":"true"}' },
+        }),
+        env as any,
+      );
+      assert.deepStrictEqual(((await resp.json()) as any).params, {});
+    });
+
+    void it("returns null for requests that did not pass through the router", () => {
+      assert.strictEqual(getRouteInfo(new Request("https://example.com/")), null);
+    });
+
+    void it("rejects duplicate param names", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/:id/:id" }] },
+        APP: jsonFetcher({}),
+      };
+
+      await assert.rejects(workerstack(new Request("https://example.com/a/b"), env as any), {
+        message: /Duplicate param ":id"/,
+      });
+    });
+  });
+
+  void describe("host routing", () => {
+    const env = {
+      ROUTES: {
+        routes: [
+          { binding: "ROOT", path: "/" },
+          { binding: "APP", path: "/app" },
+          { binding: "DOCS", path: "/", host: "docs.example.com" },
+          { binding: "TENANT", path: "/", host: ":tenant.example.com" },
+          { binding: "WILDCARD", path: "/", host: "*.example.org" },
+        ],
+      },
+      ROOT: jsonFetcher({ service: "root" }),
+      APP: jsonFetcher({ service: "app" }),
+      DOCS: jsonFetcher({ service: "docs" }),
+      TENANT: mockFetcher((req) => Response.json(getRouteInfo(req))),
+      WILDCARD: jsonFetcher({ service: "wildcard" }),
+    };
+
+    void it("routes an exact host to its binding", async () => {
+      const resp = await workerstack(new Request("https://docs.example.com/guide"), env as any);
+      assert.deepStrictEqual(await resp.json(), { service: "docs" });
+    });
+
+    void it("prefers a host route over a deeper host-less mount", async () => {
+      const resp = await workerstack(new Request("https://docs.example.com/app"), env as any);
+      assert.deepStrictEqual(await resp.json(), { service: "docs" });
+    });
+
+    void it("prefers an exact host over a host param", async () => {
+      const resp = await workerstack(new Request("https://DOCS.example.com:8443/"), env as any);
+      assert.deepStrictEqual(await resp.json(), { service: "docs" });
+    });
+
+    void it("exposes host captures as params", async () => {
+      const resp = await workerstack(new Request("https://acme.example.com/x"), env as any);
+      assert.deepStrictEqual(((await resp.json()) as any).params, { tenant: "acme" });
+    });
+
+    void it("matches wildcard hosts at any depth", async () => {
+      const resp = await workerstack(new Request("https://a.b.example.org/"), env as any);
+      assert.deepStrictEqual(await resp.json(), { service: "wildcard" });
+    });
+
+    void it("falls back to host-less routes for other hosts", async () => {
+      const app = await workerstack(new Request("https://example.net/app"), env as any);
+      assert.deepStrictEqual(await app.json(), { service: "app" });
+
+      const root = await workerstack(new Request("https://example.net/other"), env as any);
+      assert.deepStrictEqual(await root.json(), { service: "root" });
+    });
+
+    void it("throws on an invalid host pattern", async () => {
+      const badEnv = {
+        ROUTES: { routes: [{ binding: "APP", path: "/", host: "app*.example.com" }] },
+        APP: jsonFetcher({}),
+      };
+
+      await assert.rejects(workerstack(new Request("https://example.com/"), badEnv as any), {
+        message: /Invalid host pattern/,
+      });
+    });
+  });
+
+  void describe("traffic splitting", () => {
+    function splitEnv(sticky?: Record<string, string>) {
+      const variantFetcher = (name: string) =>
+        mockFetcher(
+          (req) =>
+            new Response(
+              JSON.stringify({
+                name,
+                variant: req.headers.get("x-workerstack-variant"),
+                search: new URL(req.url).search,
+              }),
+              { headers: { "content-type": "application/json" } },
+            ),
+        );
+      return {
+        ROUTES: {
+          routes: [
+            {
+              binding: "STABLE",
+              path: "/app",
+              sticky,
+              variants: [
+                { binding: "STABLE", weight: 90, name: "stable" },
+                { binding: "CANARY", weight: 10, name: "canary" },
+              ],
+            },
+          ],
+        },
+        STABLE: variantFetcher("stable"),
+        CANARY: variantFetcher("canary"),
+      };
+    }
+
+    void it("forces a variant via query param and strips it upstream", async () => {
+      const resp = await workerstack(
+        new Request("https://example.com/app?__variant=canary&x=1"),
+        splitEnv() as any,
+      );
+      assert.deepStrictEqual(await resp.json(), {
+        name: "canary",
+        variant: "canary",
+        search: "?x=1",
+      });
+      assert.strictEqual(resp.headers.get("x-workerstack-variant"), "canary");
+    });
+
+    void it("forces a variant via header", async () => {
+      const resp = await workerstack(
+        new Request("https://example.com/app", { headers: { "x-workerstack-variant": "canary" } }),
+        splitEnv() as any,
+      );
+      assert.strictEqual(((await resp.json()) as any).name, "canary");
+    });
+
+    void it("sets a sticky cookie scoped to the mount and honors it", async () => {
+      const env = splitEnv();
+      const first = await workerstack(new Request("https://example.com/app"), env as any);
+      const cookie = first.headers.get("set-cookie")!;
+      const name = first.headers.get("x-workerstack-variant")!;
+      assert.match(cookie, new RegExp(`^wsv_[a-z0-9]+=${name}; Path=/app;`));
+
+      for (let i = 0; i < 20; i++) {
+        const resp = await workerstack(
+          new Request("https://example.com/app", { headers: { cookie: cookie.split(";")[0] } }),
+          env as any,
+        );
+        assert.strictEqual(resp.headers.get("x-workerstack-variant"), name);
+        assert.strictEqual(resp.headers.get("set-cookie"), null);
+      }
+    });
+
+    void it("buckets deterministically by sticky header", async () => {
+      const env = splitEnv({ header: "x-user-id" });
+      const seen = new Map<string, string>();
+      for (let i = 0; i < 200; i++) {
+        const headers = { "x-user-id": `user-${i % 50}` };
+        const resp = await workerstack(
+          new Request("https://example.com/app", { headers }),
+          env as any,
+        );
+        const variant = resp.headers.get("x-workerstack-variant")!;
+        assert.strictEqual(resp.headers.get("set-cookie"), null);
+        const prev = seen.get(headers["x-user-id"]);
+        if (prev) assert.strictEqual(variant, prev);
+        seen.set(headers["x-user-id"], variant);
+      }
+    });
+
+    void it("splits traffic roughly by weight", async () => {
+      const env = splitEnv();
+      let canary = 0;
+      for (let i = 0; i < 1000; i++) {
+        const resp = await workerstack(new Request("https://example.com/app"), env as any);
+        if (resp.headers.get("x-workerstack-variant") === "canary") canary++;
+      }
+      assert.ok(canary > 40 && canary < 200, `canary share ${canary}/1000`);
+    });
+
+    void it("skips variants with unknown bindings", async (t) => {
+      const warn = t.mock.method(console, "warn", () => {});
+      const env = {
+        ROUTES: {
+          routes: [
+            { binding: "APP", path: "/app", variants: [{ binding: "MISSING", weight: 100 }] },
+          ],
+        },
+        APP: jsonFetcher({ service: "app" }),
+      };
+
+      const resp = await workerstack(new Request("https://example.com/app"), env as any);
+      assert.deepStrictEqual(await resp.json(), { service: "app" });
+      assert.match(String(warn.mock.calls[0].arguments[0]), /Binding "MISSING" not found/);
+    });
+  });
+
+  void describe("fallthrough", () => {
+    function statusFetcher(name: string, status: number) {
+      return mockFetcher(() => new Response(name, { status }));
+    }
+
+    void it("falls through to the parent mount and then the root route", async () => {
+      const env = {
+        ROUTES: {
+          routes: [
+            { binding: "DOCS", path: "/app/docs", fallthrough: true },
+            { binding: "APP", path: "/app", fallthrough: true },
+            { binding: "ROOT", path: "/" },
+          ],
+        },
+        DOCS: statusFetcher("docs", 404),
+        APP: statusFetcher("app", 404),
+        ROOT: statusFetcher("root", 200),
+      };
+
+      const resp = await workerstack(
+        new Request("https://example.com/app/docs/pricing"),
+        env as any,
+      );
+      assert.strictEqual(resp.status, 200);
+      assert.strictEqual(await resp.text(), "root");
+    });
+
+    void it("stops at a route without fallthrough", async () => {
+      const env = {
+        ROUTES: {
+          routes: [
+            { binding: "DOCS", path: "/app/docs", fallthrough: true },
+            { binding: "APP", path: "/app" },
+            { binding: "ROOT", path: "/" },
+          ],
+        },
+        DOCS: statusFetcher("docs", 404),
+        APP: statusFetcher("app", 404),
+        ROOT: statusFetcher("root", 200),
+      };
+
+      const resp = await workerstack(new Request("https://example.com/app/docs/x"), env as any);
+      assert.strictEqual(resp.status, 404);
+      assert.strictEqual(await resp.text(), "app");
+    });
+
+    void it("does not fall through by default", async () => {
+      const env = {
+        ROUTES: {
+          routes: [
+            { binding: "APP", path: "/app" },
+            { binding: "ROOT", path: "/" },
+          ],
+        },
+        APP: statusFetcher("app", 404),
+        ROOT: statusFetcher("root", 200),
+      };
+
+      const resp = await workerstack(new Request("https://example.com/app/x"), env as any);
+      assert.strictEqual(await resp.text(), "app");
+    });
+
+    void it("honors configured statuses", async () => {
+      const env = {
+        ROUTES: {
+          routes: [
+            { binding: "APP", path: "/app", fallthrough: [410] },
+            { binding: "ROOT", path: "/" },
+          ],
+        },
+        APP: statusFetcher("app", 410),
+        ROOT: statusFetcher("root", 200),
+      };
+
+      const resp = await workerstack(new Request("https://example.com/app/x"), env as any);
+      assert.strictEqual(await resp.text(), "root");
+
+      const other = await workerstack(new Request("https://example.com/app/x"), {
+        ...env,
+        APP: statusFetcher("app", 404),
+      } as any);
+      assert.strictEqual(await other.text(), "app");
+    });
+
+    void it("only falls through for GET and HEAD", async () => {
+      const env = {
+        ROUTES: {
+          routes: [
+            { binding: "APP", path: "/app", fallthrough: true },
+            { binding: "ROOT", path: "/" },
+          ],
+        },
+        APP: statusFetcher("app", 404),
+        ROOT: statusFetcher("root", 200),
+      };
+
+      const resp = await workerstack(
+        new Request("https://example.com/app/x", { method: "POST", body: "data" }),
+        env as any,
+      );
+      assert.strictEqual(await resp.text(), "app");
+    });
+
+    void it("rejects invalid fallthrough config", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app", fallthrough: "404" }] },
+        APP: jsonFetcher({}),
+      };
+      await assert.rejects(
+        () => workerstack(new Request("https://example.com/app"), env as any),
+        /Invalid fallthrough/,
+      );
+    });
+  });
+
+  void describe("error handling", () => {
+    const throwingFetcher = mockFetcher(() => {
+      throw new Error("boom");
+    });
+
+    void it("answers unmatched paths with a JSON envelope for JSON clients", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app" }] },
+        APP: jsonFetcher({}),
+      };
+
+      const resp = await workerstack(
+        new Request("https://example.com/other", {
+          headers: { accept: "application/json", "cf-ray": "8a1b2c3d4e5f-LHR" },
+        }),
+        env as any,
+      );
+      assert.strictEqual(resp.status, 404);
+      assert.strictEqual(resp.headers.get("x-request-id"), "8a1b2c3d4e5f-LHR");
+      assert.deepStrictEqual(await resp.json(), {
+        error: { status: 404, message: "Not found", requestId: "8a1b2c3d4e5f-LHR" },
+      });
+    });
+
+    void it("answers upstream exceptions with 502 HTML", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app" }] },
+        APP: throwingFetcher,
+      };
+
+      const resp = await workerstack(
+        new Request("https://example.com/app", { headers: { accept: "text/html" } }),
+        env as any,
+      );
+      assert.strictEqual(resp.status, 502);
+      assert.match(resp.headers.get("content-type")!, /text\/html/);
+      const requestId = resp.headers.get("x-request-id")!;
+      assert.ok(requestId);
+      assert.ok((await resp.text()).includes(requestId));
+    });
+
+    void it("answers slow upstreams with 504 after the route timeout", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app", timeout: 20 }] },
+        APP: mockFetcher(() => new Promise<Response>(() => {})),
+      };
+
+      const resp = await workerstack(
+        new Request("https://example.com/app", { headers: { accept: "application/json" } }),
+        env as any,
+      );
+      assert.strictEqual(resp.status, 504);
+      assert.strictEqual(((await resp.json()) as any).error.message, "Gateway timeout");
+    });
+
+    void it("falls back to the built-in page when the error page fails", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app", errorPage: "/app/error" }] },
+        APP: throwingFetcher,
+      };
+
+      const resp = await workerstack(new Request("https://example.com/app"), env as any);
+      assert.strictEqual(resp.status, 502);
+      assert.ok((await resp.text()).includes("Bad gateway"));
+    });
+
+    void it("dispatches the error page with its route's auth", async () => {
+      let pageRequests = 0;
+      const env = {
+        ROUTES: {
+          errorPage: "/errors/{status}",
+          routes: [
+            { binding: "APP", path: "/app" },
+            {
+              binding: "ERRORS",
+              path: "/errors",
+              auth: { type: "basic", credentials: "ERROR_USERS" },
+            },
+          ],
+        },
+        APP: throwingFetcher,
+        ERRORS: mockFetcher(() => {
+          pageRequests++;
+          return new Response("<h1>custom</h1>", { headers: { "content-type": "text/html" } });
+        }),
+        ERROR_USERS: "ops:secret",
+        WORKERSTACK_IDENTITY_SECRET: "identity-secret",
+      };
+
+      const resp = await workerstack(new Request("https://example.com/app"), env as any);
+      assert.strictEqual(resp.status, 502);
+      assert.ok((await resp.text()).includes("Bad gateway"));
+      assert.strictEqual(pageRequests, 0);
+    });
+
+    void it("intercepts upstream error statuses when configured", async () => {
+      const env = {
+        ROUTES: {
+          routes: [
+            { binding: "APP", path: "/app", interceptErrors: true },
+            { binding: "API", path: "/api" },
+          ],
+        },
+        APP: mockFetcher(() => new Response("stack trace", { status: 500 })),
+        API: mockFetcher(() => new Response("stack trace", { status: 500 })),
+      };
+      const headers = { accept: "application/json" };
+
+      const resp = await workerstack(
+        new Request("https://example.com/app", { headers }),
+        env as any,
+      );
+      assert.strictEqual(resp.status, 500);
+      assert.strictEqual(((await resp.json()) as any).error.message, "Internal server error");
+
+      const passthrough = await workerstack(
+        new Request("https://example.com/api", { headers }),
+        env as any,
+      );
+      assert.strictEqual(await passthrough.text(), "stack trace");
+    });
+
+    void it("forwards the request id upstream", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app" }] },
+        APP: mockFetcher((req) => new Response(req.headers.get("x-request-id"))),
+      };
+
+      const resp = await workerstack(
+        new Request("https://example.com/app", {
+          headers: { "cf-ray": "ray-1", "x-request-id": "spoofed" },
+        }),
+        env as any,
+      );
+      assert.strictEqual(await resp.text(), "ray-1");
+    });
+  });
+
+  void describe("authentication", () => {
+    const IDENTITY_SECRET = "identity-secret";
+    const now = () => Math.floor(Date.now() / 1000);
+
+    function identityEcho() {
+      return mockFetcher(async (req) => {
+        const identity = await getIdentity(req, IDENTITY_SECRET);
+        return new Response(JSON.stringify(identity), {
+          headers: { "content-type": "application/json" },
+        });
+      });
+    }
+
+    function authEnv(auth: Record<string, unknown>, extra: Record<string, unknown> = {}) {
+      return {
+        ROUTES: { routes: [{ binding: "APP", path: "/app", auth }] },
+        APP: identityEcho(),
+        JWT_SECRET,
+        WORKERSTACK_IDENTITY_SECRET: IDENTITY_SECRET,
+        ...extra,
+      };
+    }
+
+    void it("forwards a signed identity for a valid HS256 token", async () => {
+      const env = authEnv({ type: "jwt", secret: "JWT_SECRET", issuer: "https://id.example.com" });
+      const token = await signJwt(
+        { sub: "u1", email: "ada@example.com", iss: "https://id.example.com", exp: now() + 60 },
+        hmacKey,
+      );
+
+      const resp = await workerstack(
+        new Request("https://example.com/app", { headers: { authorization: `Bearer ${token}` } }),
+        env as any,
+      );
+      const identity = (await resp.json()) as any;
+      assert.strictEqual(identity.sub, "u1");
+      assert.strictEqual(identity.email, "ada@example.com");
+      assert.strictEqual(identity.method, "jwt");
+    });
+
+    void it("rejects expired tokens and wrong issuers", async () => {
+      const env = authEnv({ type: "jwt", secret: "JWT_SECRET", issuer: "https://id.example.com" });
+      for (const claims of [
+        { sub: "u1", iss: "https://id.example.com", exp: now() - 3600 },
+        { sub: "u1", iss: "https://evil.example.com", exp: now() + 60 },
+      ]) {
+        const token = await signJwt(claims, hmacKey);
+        const resp = await workerstack(
+          new Request("https://example.com/app", {
+            headers: { authorization: `Bearer ${token}`, accept: "application/json" },
+          }),
+          env as any,
+        );
+        assert.strictEqual(resp.status, 401);
+        assert.strictEqual(((await resp.json()) as any).error.message, "Unauthorized");
+      }
+    });
+
+    void it("rejects tokens without exp and before nbf", async () => {
+      const env = authEnv({ type: "jwt", secret: "JWT_SECRET" });
+      for (const claims of [{ sub: "u1" }, { sub: "u1", exp: now() + 60, nbf: now() + 3600 }]) {
+        const token = await signJwt(claims, hmacKey);
+        const resp = await workerstack(
+          new Request("https://example.com/app", {
+            headers: { authorization: `Bearer ${token}`, accept: "application/json" },
+          }),
+          env as any,
+        );
+        assert.strictEqual(resp.status, 401);
+      }
+    });
+
+    void it("binds the forwarded identity to its route", async () => {
+      const seen: Request[] = [];
+      const env = {
+        ...authEnv({ type: "jwt", secret: "JWT_SECRET" }),
+        APP: mockFetcher((req) => {
+          seen.push(req);
+          return new Response("ok");
+        }),
+      };
+      const token = await signJwt({ sub: "u1", exp: now() + 60 }, hmacKey);
+
+      await workerstack(
+        new Request("https://example.com/app", { headers: { authorization: `Bearer ${token}` } }),
+        env as any,
+      );
+      const [forwarded] = seen;
+      assert.strictEqual((await getIdentity(forwarded, IDENTITY_SECRET))?.route, "/app");
+      assert.strictEqual((await getIdentity(forwarded, IDENTITY_SECRET, "/app"))?.sub, "u1");
+      assert.strictEqual(await getIdentity(forwarded, IDENTITY_SECRET, "/admin"), null);
+
+      // Replayed to another mount, the router-set route header no longer matches
+      const replayed = new Request(forwarded);
+      replayed.headers.set("x-workerstack-route", "/admin");
+      assert.strictEqual(await getIdentity(replayed, IDENTITY_SECRET), null);
+    });
+
+    void it("redirects page loads to the login mount", async () => {
+      const env = authEnv({
+        type: "jwt",
+        secret: "JWT_SECRET",
+        cookie: "session",
+        login: { mount: "/auth", path: "/login" },
+      });
+
+      const resp = await workerstack(
+        new Request("https://example.com/app/settings?tab=1", { headers: { accept: "text/html" } }),
+        env as any,
+      );
+      assert.strictEqual(resp.status, 302);
+      assert.strictEqual(
+        resp.headers.get("location"),
+        "https://example.com/auth/login?redirect=%2Fapp%2Fsettings%3Ftab%3D1",
+      );
+    });
+
+    void it("reads the token from the configured cookie", async () => {
+      const env = authEnv({ type: "jwt", secret: "JWT_SECRET", cookie: "session" });
+      const token = await signJwt({ sub: "u2", exp: now() + 60 }, hmacKey);
+
+      const resp = await workerstack(
+        new Request("https://example.com/app", { headers: { cookie: `session=${token}` } }),
+        env as any,
+      );
+      assert.strictEqual(((await resp.json()) as any).sub, "u2");
+    });
+
+    void it("enforces the email allowlist", async () => {
+      const env = authEnv({ type: "jwt", secret: "JWT_SECRET", allow: ["@example.com"] });
+      const token = await signJwt({ sub: "u3", email: "eve@other.com", exp: now() + 60 }, hmacKey);
+
+      const resp = await workerstack(
+        new Request("https://example.com/app", {
+          headers: { authorization: `Bearer ${token}`, accept: "application/json" },
+        }),
+        env as any,
+      );
+      assert.strictEqual(resp.status, 403);
+    });
+
+    void it("verifies Cloudflare Access tokens against the team JWKS", async () => {
+      const { publicKey, privateKey } = (await crypto.subtle.generateKey(
+        {
+          name: "RSASSA-PKCS1-v1_5",
+          modulusLength: 2048,
+          publicExponent: new Uint8Array([1, 0, 1]),
+          hash: "SHA-256",
+        },
+        true,
+        ["sign", "verify"],
+      )) as CryptoKeyPair;
+      const jwk = { ...(await crypto.subtle.exportKey("jwk", publicKey)), kid: "k1" };
+
+      const originalFetch = globalThis.fetch;
+      const fetched: string[] = [];
+      globalThis.fetch = (async (input: string) => {
+        fetched.push(input);
+        return Response.json({ keys: [jwk] });
+      }) as typeof fetch;
+
+      try {
+        const env = authEnv({
+          type: "access",
+          team: "acme",
+          audience: "aud-tag",
+          allow: ["ada@example.com"],
+        });
+        const token = await signJwt(
+          {
+            sub: "u4",
+            email: "ada@example.com",
+            iss: "https://acme.cloudflareaccess.com",
+            aud: ["aud-tag"],
+            exp: now() + 60,
+          },
+          privateKey,
+          { alg: "RS256", kid: "k1" },
+        );
+
+        const resp = await workerstack(
+          new Request("https://example.com/app", { headers: { "cf-access-jwt-assertion": token } }),
+          env as any,
+        );
+        const identity = (await resp.json()) as any;
+        assert.strictEqual(identity.email, "ada@example.com");
+        assert.strictEqual(identity.method, "access");
+        assert.deepStrictEqual(fetched, ["https://acme.cloudflareaccess.com/cdn-cgi/access/certs"]);
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
+    void it("only tries JWKS keys matching the token's kty and alg", async () => {
+      const rsa = { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" };
+      const generate = () =>
+        crypto.subtle.generateKey(
+          { ...rsa, modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]) },
+          true,
+          ["sign", "verify"],
+        ) as Promise<CryptoKeyPair>;
+      const [other, signer] = [await generate(), await generate()];
+      const keys = [
+        { ...(await crypto.subtle.exportKey("jwk", other.publicKey)), alg: "RS384" },
+        { kty: "EC", crv: "P-256", x: "", y: "" },
+        await crypto.subtle.exportKey("jwk", signer.publicKey),
+      ];
+
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = (async () => Response.json({ keys })) as unknown as typeof fetch;
+      try {
+        const env = authEnv({ type: "jwt", jwksUrl: "https://keys.example.com/jwks.json" });
+        const token = await signJwt({ sub: "u5", exp: now() + 60 }, signer.privateKey, {
+          alg: "RS256",
+        });
+
+        const resp = await workerstack(
+          new Request("https://example.com/app", { headers: { authorization: `Bearer ${token}` } }),
+          env as any,
+        );
+        assert.strictEqual(((await resp.json()) as any).sub, "u5");
+      } finally {
+        globalThis.fetch = originalFetch;
+      }
+    });
+
+    void it("challenges and accepts HTTP Basic credentials", async () => {
+      const env = authEnv(
+        { type: "basic", credentials: "STAGING_USERS", realm: "Staging" },
+        { STAGING_USERS: "alice:wonderland\nbob:builder" },
+      );
+
+      const challenge = await workerstack(new Request("https://example.com/app"), env as any);
+      assert.strictEqual(challenge.status, 401);
+      assert.strictEqual(
+        challenge.headers.get("www-authenticate"),
+        'Basic realm="Staging", charset="UTF-8"',
+      );
+
+      const resp = await workerstack(
+        new Request("https://example.com/app", {
+          headers: { authorization: `Basic ${btoa("bob:builder")}` },
+        }),
+        env as any,
+      );
+      assert.strictEqual(((await resp.json()) as any).sub, "bob");
+    });
+
+    void it("strips client-supplied identity headers", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app" }] },
+        APP: mockFetcher((req) => new Response(req.headers.get("x-workerstack-identity"))),
+      };
+
+      const resp = await workerstack(
+        new Request("https://example.com/app", {
+          headers: { "x-workerstack-identity": "forged.signature" },
+        }),
+        env as any,
+      );
+      assert.strictEqual(await resp.text(), "");
+    });
+
+    void it("requires the identity secret when a route has auth", async () => {
+      const env = authEnv({ type: "jwt", secret: "JWT_SECRET" });
+      delete (env as any).WORKERSTACK_IDENTITY_SECRET;
+
+      await assert.rejects(
+        () => workerstack(new Request("https://example.com/app"), env as any),
+        /Secret "WORKERSTACK_IDENTITY_SECRET"/,
+      );
+    });
+  });
+
+  void describe("header policies", () => {
+    void it("answers CORS preflights without calling the upstream", async () => {
+      let called = false;
+      const env = {
+        ROUTES: {
+          routes: [
+            {
+              binding: "API",
+              path: "/api",
+              cors: { origins: ["https://*.example.com"], methods: ["GET", "POST"], maxAge: 600 },
+            },
+          ],
+        },
+        API: mockFetcher(() => {
+          called = true;
+          return new Response("upstream");
+        }),
+      };
+      const preflight = (origin: string) =>
+        workerstack(
+          new Request("https://api.example.com/api/items", {
+            method: "OPTIONS",
+            headers: {
+              origin,
+              "access-control-request-method": "POST",
+              "access-control-request-headers": "content-type",
+            },
+          }),
+          env as any,
+        );
+
+      const allowed = await preflight("https://shop.example.com");
+      assert.strictEqual(allowed.status, 204);
+      assert.strictEqual(allowed.headers.get("access-control-allow-methods"), "GET, POST");
+      assert.strictEqual(allowed.headers.get("access-control-allow-headers"), "content-type");
+      assert.strictEqual(
+        allowed.headers.get("access-control-allow-origin"),
+        "https://shop.example.com",
+      );
+      assert.strictEqual(allowed.headers.get("access-control-max-age"), "600");
+
+      const denied = await preflight("https://evil.com");
+      assert.strictEqual(denied.status, 204);
+      assert.strictEqual(denied.headers.get("access-control-allow-origin"), null);
+      assert.strictEqual(denied.headers.get("access-control-allow-methods"), null);
+      assert.strictEqual(called, false);
+    });
+
+    void it("adds CORS headers to upstream responses", async () => {
+      const env = {
+        ROUTES: {
+          routes: [
+            {
+              binding: "API",
+              path: "/api",
+              cors: { origins: "*", credentials: true, exposeHeaders: ["x-total"] },
+            },
+          ],
+        },
+        API: jsonFetcher({ ok: true }),
+      };
+
+      const resp = await workerstack(
+        new Request("https://example.com/api", { headers: { origin: "https://app.test" } }),
+        env as any,
+      );
+      assert.strictEqual(resp.headers.get("access-control-allow-origin"), "https://app.test");
+      assert.strictEqual(resp.headers.get("access-control-allow-credentials"), "true");
+      assert.strictEqual(resp.headers.get("access-control-expose-headers"), "x-total");
+      assert.strictEqual(resp.headers.get("vary"), "Origin");
+    });
+
+    void it("applies security headers and header rules", async () => {
+      const env = {
+        ROUTES: {
+          routes: [
+            {
+              binding: "APP",
+              path: "/app",
+              security: { frameOptions: "DENY", permissionsPolicy: "camera=()" },
+              headers: {
+                set: { "x-powered-by": "workerstack" },
+                default: { "cache-control": "no-cache", "x-robots-tag": "noindex" },
+                append: { "x-trace": "router" },
+                remove: ["server"],
+              },
+            },
+          ],
+        },
+        APP: mockFetcher(
+          () =>
+            new Response("ok", {
+              headers: {
+                server: "upstream",
+                "x-frame-options": "SAMEORIGIN",
+                "x-powered-by": "express",
+                "cache-control": "max-age=60",
+                "x-trace": "app",
+              },
+            }),
+        ),
+      };
+
+      const resp = await workerstack(new Request("https://example.com/app"), env as any);
+      const h = resp.headers;
+      assert.strictEqual(h.get("strict-transport-security"), "max-age=31536000; includeSubDomains");
+      assert.strictEqual(h.get("x-frame-options"), "DENY");
+      assert.strictEqual(h.get("referrer-policy"), "strict-origin-when-cross-origin");
+      assert.strictEqual(h.get("x-content-type-options"), "nosniff");
+      assert.strictEqual(h.get("permissions-policy"), "camera=()");
+      assert.strictEqual(h.get("x-powered-by"), "workerstack");
+      assert.strictEqual(h.get("cache-control"), "max-age=60");
+      assert.strictEqual(h.get("x-robots-tag"), "noindex");
+      assert.strictEqual(h.get("x-trace"), "app, router");
+      assert.strictEqual(h.get("server"), null);
+    });
+
+    void it("uses global policies unless a route opts out", async () => {
+      const env = {
+        ROUTES: {
+          security: true,
+          cors: { origins: ["https://app.test"] },
+          routes: [
+            { binding: "APP", path: "/app" },
+            { binding: "PUBLIC", path: "/public", cors: false },
+          ],
+        },
+        APP: jsonFetcher({}),
+        PUBLIC: jsonFetcher({}),
+      };
+      const headers = { origin: "https://app.test" };
+
+      const app = await workerstack(
+        new Request("https://example.com/app", { headers }),
+        env as any,
+      );
+      assert.strictEqual(app.headers.get("access-control-allow-origin"), "https://app.test");
+      assert.strictEqual(app.headers.get("x-frame-options"), "SAMEORIGIN");
+
+      const pub = await workerstack(
+        new Request("https://example.com/public", { headers }),
+        env as any,
+      );
+      assert.strictEqual(pub.headers.get("access-control-allow-origin"), null);
+      assert.strictEqual(pub.headers.get("x-frame-options"), "SAMEORIGIN");
+    });
+
+    void it("applies policies to router error responses", async () => {
+      const env = {
+        ROUTES: {
+          routes: [{ binding: "API", path: "/api", cors: { origins: ["https://app.test"] } }],
+        },
+        API: mockFetcher(() => {
+          throw new Error("boom");
+        }),
+      };
+
+      const resp = await workerstack(
+        new Request("https://example.com/api", { headers: { origin: "https://app.test" } }),
+        env as any,
+      );
+      assert.strictEqual(resp.status, 502);
+      assert.strictEqual(resp.headers.get("access-control-allow-origin"), "https://app.test");
+    });
+  });
+
+  void describe("rate limiting", () => {
+    /** In-memory stand-in for a Rate Limiting binding */
+    function memoryRateLimit(limit: number) {
+      const counts = new Map<string, number>();
+      return {
+        limit: async ({ key }: { key: string }) => {
+          counts.set(key, (counts.get(key) ?? 0) + 1);
+          return { success: counts.get(key)! <= limit };
+        },
+      };
+    }
+
+    /** In-memory Durable Object namespace running the real RateLimiter */
+    function memoryNamespace() {
+      const objects = new Map<string, any>();
+      return {
+        idFromName: (name: string) => name,
+        get: (id: string) => {
+          if (!objects.has(id)) {
+            const storage = new Map<string, unknown>();
+            const ctx = {
+              storage: {
+                get: async (key: string) => storage.get(key),
+                put: async (key: string, value: unknown) => void storage.set(key, value),
+              },
+            };
+            objects.set(id, new RateLimiter(ctx as any, {} as any));
+          }
+          return objects.get(id);
+        },
+      };
+    }
+
+    async function hit(env: unknown, headers: Record<string, string> = {}, path = "/api") {
+      return workerstack(
+        new Request(`https://example.com${path}`, {
+          headers: { accept: "application/json", ...headers },
+        }),
+        env as any,
+      );
+    }
+
+    void it("limits requests per IP with a rate limiting binding", async () => {
+      const env = {
+        ROUTES: {
+          routes: [
+            { binding: "API", path: "/api", rateLimit: { type: "binding", binding: "LIMITER" } },
+          ],
+        },
+        API: jsonFetcher({ ok: true }),
+        LIMITER: memoryRateLimit(2),
+      };
+      const ip = { "cf-connecting-ip": "203.0.113.1" };
+
+      assert.strictEqual((await hit(env, ip)).status, 200);
+      assert.strictEqual((await hit(env, ip)).status, 200);
+
+      const limited = await hit(env, ip);
+      assert.strictEqual(limited.status, 429);
+      assert.strictEqual(limited.headers.get("retry-after"), "60");
+      assert.strictEqual(((await limited.json()) as any).error.message, "Too many requests");
+
+      assert.strictEqual((await hit(env, { "cf-connecting-ip": "203.0.113.2" })).status, 200);
+    });
+
+    void it("counts per header key and per route with a Durable Object", async () => {
+      const rateLimit = {
+        type: "durableObject",
+        binding: "RATE_LIMITER",
+        key: "header:x-api-key",
+        limit: 1,
+        period: 30,
+      };
+      const env = {
+        ROUTES: {
+          routes: [
+            { binding: "API", path: "/api", rateLimit },
+            { binding: "API", path: "/auth", rateLimit },
+          ],
+        },
+        API: jsonFetcher({ ok: true }),
+        RATE_LIMITER: memoryNamespace(),
+      };
+      const key = { "x-api-key": "k1" };
+
+      assert.strictEqual((await hit(env, key)).status, 200);
+      const limited = await hit(env, key);
+      assert.strictEqual(limited.status, 429);
+      assert.ok(Number(limited.headers.get("retry-after")) <= 30);
+
+      assert.strictEqual((await hit(env, key, "/auth")).status, 200);
+      assert.strictEqual((await hit(env, { "x-api-key": "k2" })).status, 200);
+    });
+
+    void it("counts a request once per limiter across fallthrough", async () => {
+      const calls: string[] = [];
+      const counting = (name: string) => ({
+        limit: async () => {
+          calls.push(name);
+          return { success: true };
+        },
+      });
+      const rateLimit = (binding: string) => ({ type: "binding", binding });
+      const env = {
+        ROUTES: {
+          routes: [
+            { binding: "API", path: "/api/v1", fallthrough: true, rateLimit: rateLimit("SHARED") },
+            { binding: "API", path: "/api", fallthrough: true, rateLimit: rateLimit("SHARED") },
+            { binding: "ROOT", path: "/", rateLimit: rateLimit("ROOT_LIMITER") },
+          ],
+        },
+        API: mockFetcher(() => new Response("missing", { status: 404 })),
+        ROOT: jsonFetcher({ ok: true }),
+        SHARED: counting("SHARED"),
+        ROOT_LIMITER: counting("ROOT_LIMITER"),
+      };
+
+      assert.strictEqual((await hit(env, {}, "/api/v1/users")).status, 200);
+      assert.deepStrictEqual(calls, ["SHARED", "ROOT_LIMITER"]);
+    });
+
+    void it("fails open when the limiter errors", async () => {
+      const env = {
+        ROUTES: {
+          routes: [
+            { binding: "API", path: "/api", rateLimit: { type: "binding", binding: "LIMITER" } },
+          ],
+        },
+        API: jsonFetcher({ ok: true }),
+        LIMITER: {
+          limit: async () => {
+            throw new Error("unavailable");
+          },
+        },
+      };
+
+      assert.strictEqual((await hit(env)).status, 200);
+    });
+
+    void it("rejects invalid rate limit config", async () => {
+      const env = {
+        ROUTES: {
+          routes: [
+            {
+              binding: "API",
+              path: "/api",
+              rateLimit: { type: "durableObject", binding: "RATE_LIMITER" },
+            },
+          ],
+        },
+        API: jsonFetcher({}),
+        RATE_LIMITER: memoryNamespace(),
+      };
+
+      await assert.rejects(() => hit(env), /needs a positive limit/);
+    });
+  });
+
+  void describe("edge caching", () => {
+    const originalCaches = (globalThis as any).caches;
+    afterEach(() => {
+      (globalThis as any).caches = originalCaches;
+    });
+
+    /** In-memory stand-in for the Cache API, removed again after each test */
+    function installMemoryCache() {
+      const entries = new Map<string, { body: ArrayBuffer; status: number; headers: Headers }>();
+      (globalThis as any).caches = {
+        default: {
+          match: async (key: Request) => {
+            const entry = entries.get(key.url);
+            return entry
+              ? new Response(entry.body, { status: entry.status, headers: entry.headers })
+              : undefined;
+          },
+          put: async (key: Request, response: Response) => {
+            entries.set(key.url, {
+              body: await response.arrayBuffer(),
+              status: response.status,
+              headers: new Headers(response.headers),
+            });
+          },
+        },
+      };
+      return entries;
+    }
+
+    const settle = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+    function countingFetcher(body: string, headers: Record<string, string>) {
+      const fetcher = mockFetcher(() => {
+        fetcher.calls++;
+        return new Response(`${body}${fetcher.calls}`, { headers });
+      }) as { fetch: (req: Request) => Response; calls: number };
+      fetcher.calls = 0;
+      return fetcher;
+    }
+
+    void it("issues a weak ETag for rewritten bodies and answers 304", async () => {
+      let upstreamIfNoneMatch: string | null = null;
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app" }] },
+        APP: mockFetcher((req) => {
+          upstreamIfNoneMatch = req.headers.get("if-none-match");
+          return new Response("body { background: url(/assets/bg.png); }", {
+            headers: { "content-type": "text/css", etag: '"v1"' },
+          });
+        }),
+      };
+
+      const first = await workerstack(new Request("https://example.com/app/site.css"), env as any);
+      const etag = first.headers.get("etag")!;
+      assert.match(etag, /^W\/"v1-ws[a-z0-9]+"$/);
+
+      const second = await workerstack(
+        new Request("https://example.com/app/site.css", { headers: { "if-none-match": etag } }),
+        env as any,
+      );
+      assert.strictEqual(second.status, 304);
+      assert.strictEqual(second.headers.get("etag"), etag);
+      assert.strictEqual(upstreamIfNoneMatch, 'W/"v1"');
+    });
+
+    void it("keeps the weak ETag on upstream 304s", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app" }] },
+        APP: mockFetcher((req) =>
+          req.headers.get("if-none-match") === 'W/"v2"'
+            ? new Response(null, { status: 304, headers: { etag: '"v2"' } })
+            : new Response("a{}", { headers: { "content-type": "text/css", etag: '"v2"' } }),
+        ),
+      };
+
+      const first = await workerstack(new Request("https://example.com/app/a.css"), env as any);
+      const etag = first.headers.get("etag")!;
+      const second = await workerstack(
+        new Request("https://example.com/app/a.css", { headers: { "if-none-match": etag } }),
+        env as any,
+      );
+      assert.strictEqual(second.status, 304);
+      assert.strictEqual(second.headers.get("etag"), etag);
+    });
+
+    void it("caches asset-prefix paths for the configured TTL", async () => {
+      installMemoryCache();
+      const app = countingFetcher("asset", {
+        "content-type": "image/png",
+        "cache-control": "max-age=10",
+      });
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app", cache: { assets: 60 } }] },
+        APP: app,
+      };
+
+      const miss = await workerstack(
+        new Request("https://example.com/app/assets/a.png"),
+        env as any,
+      );
+      assert.strictEqual(miss.headers.get("x-workerstack-cache"), "MISS");
+      assert.strictEqual(await miss.text(), "asset1");
+      await settle();
+
+      const hit = await workerstack(
+        new Request("https://example.com/app/assets/a.png"),
+        env as any,
+      );
+      assert.strictEqual(hit.headers.get("x-workerstack-cache"), "HIT");
+      assert.strictEqual(hit.headers.get("cache-control"), "max-age=10");
+      assert.strictEqual(hit.headers.get("x-workerstack-cached-at"), null);
+      assert.strictEqual(await hit.text(), "asset1");
+      assert.strictEqual(app.calls, 1);
+
+      // Non-asset paths are not cached without an html rule
+      await workerstack(new Request("https://example.com/app/api/data"), env as any);
+      await workerstack(new Request("https://example.com/app/api/data"), env as any);
+      assert.strictEqual(app.calls, 3);
+    });
+
+    void it("caches upstream bodies and rewrites them per request", async () => {
+      const entries = installMemoryCache();
+      const app = countingFetcher("body { background: url(/assets/bg.png); } /* ", {
+        "content-type": "text/css",
+      });
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app", cache: { assets: 60 } }] },
+        APP: app,
+      };
+      const request = () => new Request("https://example.com/app/assets/site.css");
+
+      const miss = await workerstack(request(), env as any);
+      assert.match(await miss.text(), /url\(\/app\/assets\/bg.png\)/);
+      await settle();
+
+      const [entry] = entries.values();
+      assert.match(new TextDecoder().decode(entry.body), /url\(\/assets\/bg.png\)/);
+
+      const hit = await workerstack(request(), env as any);
+      assert.strictEqual(hit.headers.get("x-workerstack-cache"), "HIT");
+      assert.match(await hit.text(), /url\(\/app\/assets\/bg.png\)/);
+      assert.strictEqual(app.calls, 1);
+    });
+
+    void it("serves stale entries while revalidating in the background", async () => {
+      installMemoryCache();
+      const app = countingFetcher("asset", { "content-type": "text/plain" });
+      const env = {
+        ROUTES: {
+          routes: [
+            {
+              binding: "APP",
+              path: "/app",
+              cache: { assets: 1, staleWhileRevalidate: 60 },
+            },
+          ],
+        },
+        APP: app,
+      };
+      const request = () => new Request("https://example.com/app/static/a.txt");
+
+      await (await workerstack(request(), env as any)).text();
+      await settle();
+
+      const realNow = Date.now;
+      Date.now = () => realNow() + 5000;
+      try {
+        const stale = await workerstack(request(), env as any);
+        assert.strictEqual(stale.headers.get("x-workerstack-cache"), "STALE");
+        assert.strictEqual(await stale.text(), "asset1");
+        await settle();
+
+        const fresh = await workerstack(request(), env as any);
+        assert.strictEqual(fresh.headers.get("x-workerstack-cache"), "HIT");
+        assert.strictEqual(await fresh.text(), "asset2");
+        assert.strictEqual(app.calls, 2);
+      } finally {
+        Date.now = realNow;
+      }
+    });
+
+    void it("never shares an entry between identities", async () => {
+      const entries = installMemoryCache();
+      const greeting = (req: Request, headers: Record<string, string> = {}) =>
+        new Response(`hello ${req.headers.get("authorization") ?? req.headers.get("cookie")}`, {
+          headers: { "content-type": "text/plain", ...headers },
+        });
+      const env = {
+        ROUTES: {
+          routes: [
+            { binding: "APP", path: "/app", cache: { assets: 60 } },
+            {
+              binding: "APP",
+              path: "/admin",
+              cache: { assets: 60 },
+              auth: { type: "basic", credentials: "ADMIN_USERS" },
+            },
+            { binding: "PUBLIC", path: "/public", cache: { assets: 60 } },
+          ],
+        },
+        APP: mockFetcher((req) => greeting(req)),
+        PUBLIC: mockFetcher(() =>
+          greeting(new Request("https://x"), { "cache-control": "public" }),
+        ),
+        ADMIN_USERS: "alice:one\nbob:two",
+        WORKERSTACK_IDENTITY_SECRET: "signing-key",
+      };
+      const fetchAs = async (path: string, headers: Record<string, string>) => {
+        const resp = await workerstack(
+          new Request(`https://example.com${path}`, { headers }),
+          env as any,
+        );
+        const body = await resp.text();
+        await settle();
+        return [resp.headers.get("x-workerstack-cache"), body];
+      };
+
+      const alice = { authorization: "Bearer alice" };
+      const bob = { authorization: "Bearer bob" };
+      assert.deepStrictEqual(await fetchAs("/app/assets/me.txt", alice), [
+        "MISS",
+        "hello Bearer alice",
+      ]);
+      assert.deepStrictEqual(await fetchAs("/app/assets/me.txt", bob), [
+        "MISS",
+        "hello Bearer bob",
+      ]);
+      assert.deepStrictEqual(await fetchAs("/app/assets/me.txt", { cookie: "s=bob" }), [
+        "MISS",
+        "hello s=bob",
+      ]);
+
+      const basic = (user: string) => ({ authorization: `Basic ${btoa(user)}` });
+      assert.deepStrictEqual(await fetchAs("/admin/assets/me.txt", basic("alice:one")), [
+        "MISS",
+        `hello Basic ${btoa("alice:one")}`,
+      ]);
+      assert.deepStrictEqual(await fetchAs("/admin/assets/me.txt", basic("bob:two")), [
+        "MISS",
+        `hello Basic ${btoa("bob:two")}`,
+      ]);
+      assert.strictEqual(entries.size, 0);
+
+      // Anonymous entries are not served to credentialed requests either
+      assert.deepStrictEqual(await fetchAs("/app/assets/me.txt", {}), ["MISS", "hello null"]);
+      assert.deepStrictEqual(await fetchAs("/app/assets/me.txt", alice), [
+        "MISS",
+        "hello Bearer alice",
+      ]);
+      assert.deepStrictEqual(await fetchAs("/app/assets/me.txt", {}), ["HIT", "hello null"]);
+
+      // Responses marked public are shared
+      await fetchAs("/public/assets/me.txt", alice);
+      assert.deepStrictEqual(await fetchAs("/public/assets/me.txt", bob), ["HIT", "hello null"]);
+    });
+
+    void it("keys entries by the request headers named in Vary", async () => {
+      const entries = installMemoryCache();
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app", cache: { assets: 60 } }] },
+        APP: mockFetcher(
+          (req) =>
+            new Response(`lang ${req.headers.get("accept-language")}`, {
+              headers: {
+                "content-type": "text/plain",
+                vary: req.url.endsWith("/any") ? "*" : "Accept-Language",
+              },
+            }),
+        ),
+      };
+      const fetchIn = async (lang: string, path = "/app/assets/me.txt") => {
+        const resp = await workerstack(
+          new Request(`https://example.com${path}`, { headers: { "accept-language": lang } }),
+          env as any,
+        );
+        const body = await resp.text();
+        await settle();
+        return [resp.headers.get("x-workerstack-cache"), body];
+      };
+
+      assert.deepStrictEqual(await fetchIn("en"), ["MISS", "lang en"]);
+      assert.deepStrictEqual(await fetchIn("fr"), ["MISS", "lang fr"]);
+      assert.deepStrictEqual(await fetchIn("en"), ["HIT", "lang en"]);
+      assert.deepStrictEqual(await fetchIn("fr"), ["HIT", "lang fr"]);
+
+      entries.clear();
+      await fetchIn("en", "/app/assets/any");
+      assert.strictEqual(entries.size, 0);
+    });
+
+    void it("does not cache private responses or responses setting cookies", async () => {
+      const entries = installMemoryCache();
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app", cache: { assets: 60 } }] },
+        APP: mockFetcher(
+          (req) =>
+            new Response("x", {
+              headers: req.url.endsWith("private.js")
+                ? { "cache-control": "private" }
+                : { "set-cookie": "a=b; Path=/" },
+            }),
+        ),
+      };
+
+      await (
+        await workerstack(new Request("https://example.com/app/assets/private.js"), env as any)
+      ).text();
+      await (
+        await workerstack(new Request("https://example.com/app/assets/cookie.js"), env as any)
+      ).text();
+      await settle();
+      assert.strictEqual(entries.size, 0);
+    });
+  });
+
+  void describe("redirects and rewrites", () => {
+    function rulesEnv(globals: Record<string, unknown>) {
+      return {
+        ROUTES: {
+          ...globals,
+          routes: [
+            { binding: "APP", path: "/app" },
+            { binding: "ROOT", path: "/" },
+          ],
+        },
+        APP: echoPathFetcher(),
+        ROOT: echoPathFetcher(),
+      };
+    }
+
+    void it("redirects with param substitution before matching", async () => {
+      const env = rulesEnv({
+        redirects: [
+          { source: "/blog/:slug", destination: "/app/posts/:slug", status: 301 },
+          { source: "/docs/:rest*", destination: "https://docs.example.com/:rest" },
+        ],
+      });
+
+      const resp = await workerstack(
+        new Request("https://example.com/blog/hello?ref=x"),
+        env as any,
+      );
+      assert.strictEqual(resp.status, 301);
+      assert.strictEqual(resp.headers.get("location"), "https://example.com/app/posts/hello?ref=x");
+
+      const splat = await workerstack(new Request("https://example.com/docs/a/b"), env as any);
+      assert.strictEqual(splat.status, 302);
+      assert.strictEqual(splat.headers.get("location"), "https://docs.example.com/a/b");
+
+      const bare = await workerstack(new Request("https://example.com/docs"), env as any);
+      assert.strictEqual(bare.headers.get("location"), "https://docs.example.com/");
+    });
+
+    void it("keeps splat substitutions on the same origin", async () => {
+      const env = rulesEnv({
+        redirects: [{ source: "/blog/:slug*", destination: "/:slug" }],
+        rewrites: [{ source: "/view/:path*", destination: "/:path" }],
+      });
+
+      const redirect = await workerstack(
+        new Request("https://example.com/blog//evil.com"),
+        env as any,
+      );
+      assert.strictEqual(redirect.headers.get("location"), "https://example.com/evil.com");
+
+      const rewrite = await workerstack(
+        new Request("https://example.com/view//evil.com/app/x"),
+        env as any,
+      );
+      assert.deepStrictEqual(await rewrite.json(), { path: "/evil.com/app/x" });
+    });
+
+    void it("only redirects exact matches", async () => {
+      const env = rulesEnv({ redirects: [{ source: "/old", destination: "/new" }] });
+
+      const resp = await workerstack(new Request("https://example.com/old/page"), env as any);
+      assert.strictEqual(resp.status, 200);
+      assert.deepStrictEqual(await resp.json(), { path: "/old/page" });
+    });
+
+    void it("rewrites to another upstream path without redirecting", async () => {
+      const env = rulesEnv({
+        rewrites: [{ source: "/pricing", destination: "/app/plans" }],
+      });
+
+      const resp = await workerstack(new Request("https://example.com/pricing"), env as any);
+      assert.strictEqual(resp.status, 200);
+      assert.deepStrictEqual(await resp.json(), { path: "/plans" });
+    });
+
+    void it("enforces the trailing slash policy", async () => {
+      const always = rulesEnv({ trailingSlash: "always" });
+      const added = await workerstack(
+        new Request("https://example.com/app/page?x=1"),
+        always as any,
+      );
+      assert.strictEqual(added.status, 308);
+      assert.strictEqual(added.headers.get("location"), "https://example.com/app/page/?x=1");
+
+      const file = await workerstack(
+        new Request("https://example.com/app/logo.svg"),
+        always as any,
+      );
+      assert.strictEqual(file.status, 200);
+
+      const never = rulesEnv({ trailingSlash: "never" });
+      const removed = await workerstack(new Request("https://example.com/app/page/"), never as any);
+      assert.strictEqual(removed.status, 308);
+      assert.strictEqual(removed.headers.get("location"), "https://example.com/app/page");
+
+      const root = await workerstack(new Request("https://example.com/"), never as any);
+      assert.strictEqual(root.status, 200);
+    });
+
+    void it("rejects invalid redirect status", async () => {
+      const env = rulesEnv({ redirects: [{ source: "/a", destination: "/b", status: 200 }] });
+      await assert.rejects(
+        () => workerstack(new Request("https://example.com/a"), env as any),
+        /Invalid redirect status 200/,
+      );
+    });
+  });
+
+  void describe("tracing", () => {
+    function tracingEnv(tracing: unknown, extra: Record<string, unknown> = {}) {
+      const seen: Request[] = [];
+      return {
+        seen,
+        env: {
+          ROUTES: { tracing, routes: [{ binding: "APP", path: "/app" }] },
+          APP: mockFetcher((req) => {
+            seen.push(req);
+            return new Response("ok", { headers: { "server-timing": "db;dur=3" } });
+          }),
+          ...extra,
+        },
+      };
+    }
+
+    void it("is off by default", async (t) => {
+      const log = t.mock.method(console, "log", () => {});
+      const { env, seen } = tracingEnv(undefined);
+
+      const resp = await workerstack(new Request("https://example.com/app/"), env as any);
+      assert.strictEqual(resp.headers.get("server-timing"), "db;dur=3");
+      assert.strictEqual(seen[0].headers.get("traceparent"), null);
+      assert.strictEqual(log.mock.callCount(), 0);
+    });
+
+    void it("propagates the request id and continues the caller's trace", async (t) => {
+      t.mock.method(console, "log", () => {});
+      const { env, seen } = tracingEnv(true);
+      const inbound = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+
+      const resp = await workerstack(
+        new Request("https://example.com/app/", {
+          headers: { "x-request-id": "req-123", traceparent: inbound },
+        }),
+        env as any,
+      );
+
+      assert.strictEqual(seen[0].headers.get("x-request-id"), "req-123");
+      assert.strictEqual(resp.headers.get("x-request-id"), "req-123");
+      const traceparent = seen[0].headers.get("traceparent")!;
+      assert.match(traceparent, /^00-4bf92f3577b34da6a3ce929d0e0e4736-[0-9a-f]{16}-01$/);
+      assert.notStrictEqual(traceparent, inbound);
+    });
+
+    void it("starts a new trace for missing or invalid traceparents", async (t) => {
+      t.mock.method(console, "log", () => {});
+      const { env, seen } = tracingEnv(true);
+
+      await workerstack(
+        new Request("https://example.com/app/", {
+          headers: { traceparent: "00-00000000000000000000000000000000-00f067aa0ba902b7-01" },
+        }),
+        env as any,
+      );
+
+      assert.match(seen[0].headers.get("traceparent")!, /^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+      assert.doesNotMatch(seen[0].headers.get("traceparent")!, /^00-0{32}/);
+    });
+
+    void it("appends router phases to Server-Timing", async (t) => {
+      t.mock.method(console, "log", () => {});
+      const { env } = tracingEnv(true);
+
+      const resp = await workerstack(new Request("https://example.com/app/"), env as any);
+      assert.match(
+        resp.headers.get("server-timing")!,
+        /^db;dur=3, route;dur=[\d.]+, upstream;dur=[\d.]+, rewrite;dur=[\d.]+$/,
+      );
+    });
+
+    void it("writes one JSON log line per request", async (t) => {
+      const log = t.mock.method(console, "log", () => {});
+      const { env } = tracingEnv({ serverTiming: false });
+
+      const resp = await workerstack(new Request("https://example.com/app/page"), env as any);
+      assert.strictEqual(resp.headers.get("server-timing"), "db;dur=3");
+      assert.strictEqual(log.mock.callCount(), 1);
+
+      const entry = JSON.parse(log.mock.calls[0].arguments[0] as string);
+      assert.strictEqual(entry.route, "/app");
+      assert.strictEqual(entry.mount, "/app");
+      assert.strictEqual(entry.binding, "APP");
+      assert.strictEqual(entry.status, 200);
+      assert.strictEqual(entry.path, "/app/page");
+      assert.strictEqual(entry.requestId, resp.headers.get("x-request-id"));
+      assert.deepStrictEqual(Object.keys(entry.phases), ["route", "upstream", "rewrite"]);
+    });
+
+    void it("is toggled by WORKERSTACK_TRACING", async (t) => {
+      const log = t.mock.method(console, "log", () => {});
+
+      const off = tracingEnv(true, { WORKERSTACK_TRACING: "false" });
+      const quiet = await workerstack(new Request("https://example.com/app/"), off.env as any);
+      assert.strictEqual(quiet.headers.get("server-timing"), "db;dur=3");
+
+      const on = tracingEnv(undefined, { WORKERSTACK_TRACING: "true" });
+      const traced = await workerstack(new Request("https://example.com/app/"), on.env as any);
+      assert.match(traced.headers.get("server-timing")!, /route;dur=/);
+      assert.strictEqual(log.mock.callCount(), 1);
+    });
+
+    void it("logs requests answered before routing", async (t) => {
+      const log = t.mock.method(console, "log", () => {});
+      const { env } = tracingEnv(true);
+      env.ROUTES = { ...env.ROUTES, redirects: [{ source: "/old", destination: "/app" }] } as any;
+
+      const resp = await workerstack(new Request("https://example.com/old"), env as any);
+      assert.strictEqual(resp.status, 302);
+      assert.ok(resp.headers.get("x-request-id"));
+      assert.strictEqual(JSON.parse(log.mock.calls[0].arguments[0] as string).route, null);
+    });
+  });
+
+  void describe("analytics", () => {
+    function analyticsEnv(upstream: ReturnType<typeof mockFetcher>) {
+      const points: AnalyticsEngineDataPoint[] = [];
+      return {
+        points,
+        env: {
+          ROUTES: {
+            analytics: { binding: "METRICS" },
+            routes: [
+              { binding: "APP", path: "/app" },
+              { binding: "ROOT", path: "/" },
+            ],
+          },
+          METRICS: { writeDataPoint: (point: AnalyticsEngineDataPoint) => points.push(point) },
+          APP: upstream,
+          ROOT: jsonFetcher({ error: "missing" }, 404),
+        },
+      };
+    }
+
+    void it("writes a data point per request", async () => {
+      const { env, points } = analyticsEnv(cssFetcher("body { color: red; }"));
+
+      await workerstack(new Request("https://example.com/app/site.css"), env as any);
+      await workerstack(new Request("https://example.com/missing"), env as any);
+
+      assert.strictEqual(points.length, 2);
+      const [css, missing] = points;
+      assert.deepStrictEqual(css.indexes, ["/app"]);
+      assert.deepStrictEqual(css.blobs, [
+        "/app",
+        "APP",
+        "2xx",
+        "GET",
+        "example.com",
+        "",
+        "css",
+        "",
+      ]);
+      assert.strictEqual(css.doubles![0], 200);
+      assert.ok(css.doubles![1] >= css.doubles![2]);
+      assert.deepStrictEqual(missing.blobs!.slice(0, 3), ["/", "ROOT", "4xx"]);
+      assert.strictEqual(missing.blobs![6], "");
+    });
+
+    void it("never fails a request when the dataset throws", async () => {
+      const { env } = analyticsEnv(jsonFetcher({ ok: true }));
+      env.METRICS.writeDataPoint = () => {
+        throw new Error("dataset unavailable");
+      };
+
+      const resp = await workerstack(new Request("https://example.com/app/"), env as any);
+      assert.strictEqual(resp.status, 200);
+    });
+
+    void it("rejects a missing dataset binding", async () => {
+      const { env } = analyticsEnv(jsonFetcher({ ok: true }));
+      await assert.rejects(
+        () =>
+          workerstack(new Request("https://example.com/app/"), {
+            ...env,
+            METRICS: undefined,
+          } as any),
+        /Analytics binding "METRICS" not found/,
+      );
+    });
+  });
+
+  void describe("introspection", () => {
+    function introspectionEnv(
+      extra: Record<string, unknown> = { WORKERSTACK_DEV: "true" },
+      introspection?: unknown,
+    ) {
+      return {
+        ROUTES: {
+          introspection,
+          redirects: [{ source: "/old", destination: "/app", status: 301 }],
+          routes: [
+            { binding: "ROOT", path: "/" },
+            { binding: "APP", path: "/app", preload: true },
+            { binding: "ITEM", path: "/app/:id" },
+            { binding: "DOCS", path: "/", host: "docs.example.com" },
+          ],
+        },
+        ROOT: echoPathFetcher(),
+        APP: echoPathFetcher(),
+        ITEM: echoPathFetcher(),
+        DOCS: echoPathFetcher(),
+        ...extra,
+      };
+    }
+
+    void it("serves the compiled route table in dev mode", async () => {
+      const resp = await workerstack(
+        new Request("https://example.com/__workerstack/routes"),
+        introspectionEnv() as any,
+      );
+      assert.strictEqual(resp.status, 200);
+      assert.strictEqual(resp.headers.get("cache-control"), "no-store");
+
+      const body = (await resp.json()) as any;
+      assert.deepStrictEqual(
+        body.routes.map((r: any) => [r.order, r.expr, r.binding, r.kind]),
+        [
+          [0, "/", "DOCS", "root"],
+          [1, "/app/:id", "ITEM", "dynamic"],
+          [2, "/app", "APP", "static"],
+          [3, "/", "ROOT", "root"],
+        ],
+      );
+      const app = body.routes.find((r: any) => r.binding === "APP");
+      assert.strictEqual(app.staticMount, "/app");
+      assert.strictEqual(app.preload, true);
+      assert.strictEqual(typeof app.regex, "string");
+      assert.strictEqual(typeof app.baseSpecificity, "number");
+      assert.deepStrictEqual(body.redirects, [
+        { source: "/old", destination: "/app", status: 301 },
+      ]);
+    });
+
+    void it("explains which route wins for a path", async () => {
+      const env = introspectionEnv();
+      const match = async (query: string) => {
+        const resp = await workerstack(
+          new Request(`http://localhost/__workerstack/match?${query}`),
+          env as any,
+        );
+        return (await resp.json()) as any;
+      };
+
+      const item = await match("path=/app/123");
+      assert.deepStrictEqual(item.winner.params, { id: "123" });
+      assert.strictEqual(item.winner.binding, "ITEM");
+      assert.strictEqual(item.reason, '"/app/:id" beats "/app" on mount length (8 > 4).');
+      assert.ok(item.candidates.some((c: any) => c.binding === "DOCS" && !c.hostMatched));
+
+      const root = await match("path=/about");
+      assert.strictEqual(root.winner.binding, "ROOT");
+      assert.strictEqual(root.reason, '"/" is the only route for this host and path.');
+
+      const docs = await match("path=/app&host=docs.example.com");
+      assert.strictEqual(docs.winner.binding, "DOCS");
+      assert.match(docs.reason, /on host specificity/);
+
+      const moved = await match("path=/old");
+      assert.deepStrictEqual(moved.redirect, { location: "http://localhost/app", status: 301 });
+    });
+
+    void it("requires a bearer token outside dev mode", async () => {
+      const env = introspectionEnv({ WORKERSTACK_INTROSPECTION_TOKEN: "s3cret" }, true);
+      const url = "https://example.com/__workerstack/routes";
+
+      const denied = await workerstack(new Request(url), env as any);
+      assert.strictEqual(denied.status, 401);
+
+      // The Host header is client-controlled and grants nothing
+      const local = await workerstack(
+        new Request("http://localhost:8787/__workerstack/routes"),
+        env as any,
+      );
+      assert.strictEqual(local.status, 401);
+
+      const allowed = await workerstack(
+        new Request(url, { headers: { authorization: "Bearer s3cret" } }),
+        env as any,
+      );
+      assert.strictEqual(allowed.status, 200);
+    });
+
+    void it("routes normally unless enabled", async () => {
+      const unset = await workerstack(
+        new Request("http://localhost/__workerstack/routes"),
+        introspectionEnv({ WORKERSTACK_INTROSPECTION_TOKEN: "s3cret" }) as any,
+      );
+      assert.deepStrictEqual(await unset.json(), { path: "/__workerstack/routes" });
+
+      const disabled = await workerstack(
+        new Request("http://localhost/__workerstack/routes"),
+        introspectionEnv({ WORKERSTACK_DEV: "true" }, false) as any,
+      );
+      assert.deepStrictEqual(await disabled.json(), { path: "/__workerstack/routes" });
+
+      const devOff = await workerstack(
+        new Request("http://localhost/__workerstack/routes"),
+        introspectionEnv({ WORKERSTACK_DEV: "false" }) as any,
+      );
+      assert.deepStrictEqual(await devOff.json(), { path: "/__workerstack/routes" });
+    });
+
+    void it("requires the token secret once enabled", async () => {
+      await assert.rejects(
+        () =>
+          workerstack(
+            new Request("https://example.com/__workerstack/routes"),
+            introspectionEnv({}, true) as any,
+          ),
+        /Secret "WORKERSTACK_INTROSPECTION_TOKEN" required by route "introspection" is not set/,
+      );
+    });
+
+    void it("rejects unknown endpoints and missing paths", async () => {
+      const env = introspectionEnv();
+      const unknown = await workerstack(
+        new Request("http://localhost/__workerstack/nope"),
+        env as any,
+      );
+      assert.strictEqual(unknown.status, 404);
+
+      const missing = await workerstack(
+        new Request("http://localhost/__workerstack/match"),
+        env as any,
+      );
+      assert.strictEqual(missing.status, 400);
+    });
+  });
+
+  void describe("URL header rewriting", () => {
+    function headersEnv(headers: Record<string, string>, path = "/app") {
+      return {
+        ROUTES: { routes: [{ binding: "APP", path }] },
+        APP: mockFetcher(() => new Response("{}", { headers })),
+      };
+    }
+
+    void it("scopes Link targets with the asset rules", async () => {
+      const env = headersEnv({
+        link: [
+          "</assets/app.css>; rel=preload; as=style",
+          "</app/assets/done.js>; rel=modulepreload",
+          "</favicon.ico>; rel=icon",
+          "</about>; rel=prefetch",
+          "<https://example.com/static/font.woff2>; rel=preload; as=font; crossorigin",
+          "<https://cdn.example.net/assets/lib.js>; rel=preload; as=script",
+        ].join(", "),
+      });
+
+      const resp = await workerstack(new Request("https://example.com/app/"), env as any);
+      assert.strictEqual(
+        resp.headers.get("link"),
+        [
+          "</app/assets/app.css>; rel=preload; as=style",
+          "</app/assets/done.js>; rel=modulepreload",
+          "</app/favicon.ico>; rel=icon",
+          "</about>; rel=prefetch",
+          "<https://example.com/app/static/font.woff2>; rel=preload; as=font; crossorigin",
+          "<https://cdn.example.net/assets/lib.js>; rel=preload; as=script",
+        ].join(", "),
+      );
+    });
+
+    void it("scopes Refresh, Content-Location and Service-Worker-Allowed", async () => {
+      const env = headersEnv({
+        refresh: "5; url=/done",
+        "content-location": "/items/1.json",
+        "service-worker-allowed": "/",
+      });
+
+      const resp = await workerstack(new Request("https://example.com/app/items/1"), env as any);
+      assert.strictEqual(resp.headers.get("refresh"), "5; url=/app/done");
+      assert.strictEqual(resp.headers.get("content-location"), "/app/items/1.json");
+      assert.strictEqual(resp.headers.get("service-worker-allowed"), "/app/");
+    });
+
+    void it("leaves headers alone for the root mount and external URLs", async () => {
+      const root = headersEnv(
+        { link: "</assets/app.css>; rel=preload", refresh: "0; url=/x" },
+        "/",
+      );
+      const rootResp = await workerstack(new Request("https://example.com/"), root as any);
+      assert.strictEqual(rootResp.headers.get("link"), "</assets/app.css>; rel=preload");
+      assert.strictEqual(rootResp.headers.get("refresh"), "0; url=/x");
+
+      const external = headersEnv({ refresh: "0;URL='https://other.com/x'" });
+      const extResp = await workerstack(new Request("https://example.com/app/"), external as any);
+      assert.strictEqual(extResp.headers.get("refresh"), "0;URL='https://other.com/x'");
+    });
+
+    void it("rewrites Link on redirects", async () => {
       const env = {
         ROUTES: { routes: [{ binding: "APP", path: "/app" }] },
-        APP: jsonFetcher({ service: "app" }),
+        APP: mockFetcher(
+          () =>
+            new Response(null, {
+              status: 302,
+              headers: { location: "/next", link: "</assets/next.css>; rel=preload" },
+            }),
+        ),
       };
 
-      const resp = await workerstack(new Request("https://example.com/app"), env as any);
-      assert.strictEqual(resp.status, 200);
-      assert.deepStrictEqual(await resp.json(), { service: "app" });
+      const resp = await workerstack(new Request("https://example.com/app/"), env as any);
+      assert.strictEqual(resp.headers.get("link"), "</app/assets/next.css>; rel=preload");
     });
+  });
 
-    void it("strips mount prefix before forwarding", async () => {
-      const env = {
-        ROUTES: { routes: [{ binding: "APP", path: "/app" }] },
-        APP: echoPathFetcher(),
+  void describe("manifest and service worker rewriting", () => {
+    const manifest = {
+      name: "App",
+      start_url: "/",
+      scope: "/",
+      id: "/?source=pwa",
+      icons: [{ src: "/icons/192.png", sizes: "192x192" }, { src: "icons/512.png" }],
+      shortcuts: [{ name: "New", url: "/new", icons: [{ src: "/icons/new.png" }] }],
+      share_target: { action: "/share", method: "POST" },
+      related_applications: [{ platform: "play", url: "https://play.google.com/x" }],
+    };
+
+    function manifestEnv(contentType: string, body: string, path = "/app") {
+      return {
+        ROUTES: { routes: [{ binding: "APP", path }] },
+        APP: mockFetcher(() => new Response(body, { headers: { "content-type": contentType } })),
       };
+    }
 
-      const resp = await workerstack(new Request("https://example.com/app/page"), env as any);
-      assert.deepStrictEqual(await resp.json(), { path: "/page" });
+    void it("scopes manifest URLs to the mount", async () => {
+      const env = manifestEnv("application/manifest+json", JSON.stringify(manifest));
+
+      const resp = await workerstack(
+        new Request("https://example.com/app/manifest.webmanifest"),
+        env as any,
+      );
+      assert.deepStrictEqual(await resp.json(), {
+        ...manifest,
+        start_url: "/app/",
+        scope: "/app/",
+        id: "/app/?source=pwa",
+        icons: [{ src: "/app/icons/192.png", sizes: "192x192" }, { src: "icons/512.png" }],
+        shortcuts: [{ name: "New", url: "/app/new", icons: [{ src: "/app/icons/new.png" }] }],
+        share_target: { action: "/app/share", method: "POST" },
+      });
     });
 
-    void it("forwards mount root as /", async () => {
-      const env = {
-        ROUTES: { routes: [{ binding: "APP", path: "/app" }] },
-        APP: echoPathFetcher(),
+    void it("recognizes manifest.json served as JSON", async () => {
+      const json = manifestEnv("application/json", JSON.stringify({ start_url: "/" }));
+      const resp = await workerstack(
+        new Request("https://example.com/app/manifest.json"),
+        json as any,
+      );
+      assert.deepStrictEqual(await resp.json(), { start_url: "/app/" });
+
+      const other = await workerstack(
+        new Request("https://example.com/app/data.json"),
+        json as any,
+      );
+      assert.deepStrictEqual(await other.json(), { start_url: "/" });
+    });
+
+    void it("passes malformed and root-mounted manifests through", async () => {
+      const broken = manifestEnv("application/manifest+json", "{ nope");
+      const resp = await workerstack(
+        new Request("https://example.com/app/site.webmanifest"),
+        broken as any,
+      );
+      assert.strictEqual(await resp.text(), "{ nope");
+
+      const root = manifestEnv("application/manifest+json", JSON.stringify({ scope: "/" }), "/");
+      const rootResp = await workerstack(
+        new Request("https://example.com/site.webmanifest"),
+        root as any,
+      );
+      assert.deepStrictEqual(await rootResp.json(), { scope: "/" });
+    });
+
+    void it("allows mounted service workers to control the mount", async () => {
+      const env = manifestEnv("text/javascript", "self.addEventListener('fetch', () => {})");
+
+      const resp = await workerstack(
+        new Request("https://example.com/app/js/sw.js", {
+          headers: { "service-worker": "script" },
+        }),
+        env as any,
+      );
+      assert.strictEqual(resp.headers.get("service-worker-allowed"), "/app/");
+
+      const plain = await workerstack(new Request("https://example.com/app/js/sw.js"), env as any);
+      assert.strictEqual(plain.headers.get("service-worker-allowed"), null);
+    });
+  });
+
+  void describe("JSON and XML body rewriting", () => {
+    function bodyEnv(rewriteBody: unknown, contentType: string, body: string | string[]) {
+      const chunks = Array.isArray(body) ? body : [body];
+      return {
+        ROUTES: { routes: [{ binding: "APP", path: "/app", rewriteBody }] },
+        APP: mockFetcher(() => {
+          const encoder = new TextEncoder();
+          const stream = new ReadableStream<Uint8Array>({
+            start(controller) {
+              for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+              controller.close();
+            },
+          });
+          return new Response(stream, { headers: { "content-type": contentType } });
+        }),
       };
+    }
 
-      const resp = await workerstack(new Request("https://example.com/app"), env as any);
-      assert.deepStrictEqual(await resp.json(), { path: "/" });
+    void it("rewrites configured JSON pointers", async () => {
+      const env = bodyEnv({ json: ["/next", "/items/*/url", "/a~1b"] }, "application/json", [
+        JSON.stringify({
+          next: "/items?page=2",
+          prev: "/items?page=0",
+          items: [{ url: "/items/1" }, { url: "https://other.com/x" }, { url: "/app/items/3" }],
+          "a/b": "/slash",
+        }),
+      ]);
+
+      const resp = await workerstack(new Request("https://example.com/app/items"), env as any);
+      assert.deepStrictEqual(await resp.json(), {
+        next: "/app/items?page=2",
+        prev: "/items?page=0",
+        items: [{ url: "/app/items/1" }, { url: "https://other.com/x" }, { url: "/app/items/3" }],
+        "a/b": "/app/slash",
+      });
     });
 
-    void it("selects most specific route by path length", async () => {
-      const env = {
+    void it("rewrites HAL and JSON:API link fields", async () => {
+      const hal = bodyEnv({ json: ["hal"] }, "application/hal+json", [
+        JSON.stringify({
+          _links: { self: { href: "/orders" }, item: [{ href: "/orders/1" }] },
+          _embedded: { orders: [{ _links: { self: { href: "https://example.com/orders/2" } } }] },
+        }),
+      ]);
+      const halResp = await workerstack(new Request("https://example.com/app/orders"), hal as any);
+      assert.deepStrictEqual(await halResp.json(), {
+        _links: { self: { href: "/app/orders" }, item: [{ href: "/app/orders/1" }] },
+        _embedded: {
+          orders: [{ _links: { self: { href: "https://example.com/app/orders/2" } } }],
+        },
+      });
+
+      const api = bodyEnv({ json: ["jsonapi"] }, "application/vnd.api+json", [
+        JSON.stringify({
+          links: { self: "/articles", next: { href: "/articles?page=2" } },
+          data: [{ id: "1", links: { self: "/articles/1" }, attributes: { body: "/not-a-link" } }],
+        }),
+      ]);
+      const apiResp = await workerstack(
+        new Request("https://example.com/app/articles"),
+        api as any,
+      );
+      assert.deepStrictEqual(await apiResp.json(), {
+        links: { self: "/app/articles", next: { href: "/app/articles?page=2" } },
+        data: [
+          { id: "1", links: { self: "/app/articles/1" }, attributes: { body: "/not-a-link" } },
+        ],
+      });
+    });
+
+    void it("leaves JSON alone unless configured", async () => {
+      const env = bodyEnv(undefined, "application/json", JSON.stringify({ next: "/items" }));
+      const resp = await workerstack(new Request("https://example.com/app/"), env as any);
+      assert.deepStrictEqual(await resp.json(), { next: "/items" });
+    });
+
+    void it("rewrites sitemap locs across chunk boundaries", async () => {
+      const sitemap =
+        '<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">' +
+        "<url><loc>https://example.com/about</loc></url>" +
+        "<url><loc>\n  /contact\n</loc><image:loc>/static/a.png</image:loc></url>" +
+        "<url><loc>https://other.com/x</loc></url></urlset>";
+      const chunks = sitemap.match(/[\s\S]{1,7}/g)!;
+      const env = bodyEnv({ xml: true }, "application/xml", chunks);
+
+      const resp = await workerstack(
+        new Request("https://example.com/app/sitemap.xml"),
+        env as any,
+      );
+      assert.strictEqual(
+        await resp.text(),
+        sitemap
+          .replace("https://example.com/about", "https://example.com/app/about")
+          .replace("/contact", "/app/contact")
+          .replace("/static/a.png", "/app/static/a.png"),
+      );
+    });
+
+    void it("rewrites RSS and Atom links", async () => {
+      const feed =
+        '<rss><channel><atom:link href="/feed.xml" rel="self"/><link>/</link>' +
+        "<item><link><![CDATA[/posts/1]]></link><description>/posts/1</description></item>" +
+        "</channel></rss>";
+      const env = bodyEnv({ xml: true }, "application/rss+xml", feed.match(/[\s\S]{1,5}/g)!);
+
+      const resp = await workerstack(new Request("https://example.com/app/feed.xml"), env as any);
+      assert.strictEqual(
+        await resp.text(),
+        '<rss><channel><atom:link href="/app/feed.xml" rel="self"/><link>/app/</link>' +
+          "<item><link><![CDATA[/app/posts/1]]></link><description>/posts/1</description></item>" +
+          "</channel></rss>",
+      );
+    });
+
+    void it("rejects invalid JSON pointers", async () => {
+      const env = bodyEnv({ json: ["next"] }, "application/json", "{}");
+      await assert.rejects(
+        () => workerstack(new Request("https://example.com/app/"), env as any),
+        /Invalid JSON pointer "next"/,
+      );
+    });
+  });
+
+  void describe("sitemaps and robots.txt", () => {
+    function siteFetcher(files: Record<string, { type: string; body: string }>) {
+      return mockFetcher((req) => {
+        const file = files[new URL(req.url).pathname];
+        if (!file) return new Response("not found", { status: 404 });
+        return new Response(file.body, { headers: { "content-type": file.type } });
+      });
+    }
+
+    function crawlEnv(globals: Record<string, unknown>, docs: Record<string, unknown> = {}) {
+      return {
         ROUTES: {
+          ...globals,
           routes: [
+            { binding: "ROOT", path: "/" },
             { binding: "APP", path: "/app" },
-            { binding: "API", path: "/app/api" },
+            { binding: "DOCS", path: "/docs", ...docs },
+            { binding: "ITEM", path: "/items/:id" },
+            { binding: "EMPTY", path: "/empty" },
           ],
         },
-        APP: jsonFetcher({ service: "app" }),
-        API: jsonFetcher({ service: "api" }),
+        ROOT: siteFetcher({
+          "/sitemap.xml": {
+            type: "application/xml",
+            body: "<urlset><url><loc>/</loc></url></urlset>",
+          },
+          "/robots.txt": {
+            type: "text/plain",
+            body: "User-agent: *\nDisallow: /private # keep out\nSitemap: https://example.com/old.xml\n",
+          },
+        }),
+        APP: siteFetcher({
+          "/sitemap.xml": {
+            type: "application/xml",
+            body: "<urlset><url><loc>https://example.com/pricing</loc></url></urlset>",
+          },
+          "/robots.txt": {
+            type: "text/plain",
+            body: "User-agent: *\nDisallow: /admin\nDisallow:\n\nUser-agent: BadBot\nDisallow: /\n",
+          },
+        }),
+        DOCS: siteFetcher({
+          "/sitemap.xml": { type: "application/xml", body: "<urlset></urlset>" },
+          "/robots.txt": { type: "text/plain", body: "User-agent: *\nAllow: /public\n" },
+        }),
+        ITEM: siteFetcher({}),
+        EMPTY: siteFetcher({}),
       };
+    }
 
-      const resp = await workerstack(new Request("https://example.com/app/api/users"), env as any);
-      assert.deepStrictEqual(await resp.json(), { service: "api" });
+    void it("serves a sitemap index of the mounts that have one", async () => {
+      const env = crawlEnv({ sitemap: true });
+
+      const resp = await workerstack(new Request("https://example.com/sitemap.xml"), env as any);
+      assert.strictEqual(resp.headers.get("content-type"), "application/xml; charset=utf-8");
+      const xml = await resp.text();
+      assert.deepStrictEqual(
+        [...xml.matchAll(/<loc>(.*?)<\/loc>/g)].map((m) => m[1]),
+        [
+          "https://example.com/sitemap-root.xml",
+          "https://example.com/app/sitemap.xml",
+          "https://example.com/docs/sitemap.xml",
+        ],
+      );
+
+      const root = await workerstack(
+        new Request("https://example.com/sitemap-root.xml"),
+        env as any,
+      );
+      assert.strictEqual(await root.text(), "<urlset><url><loc>/</loc></url></urlset>");
     });
 
-    void it("falls back to root route for unmatched paths", async () => {
+    void it("scopes listed sitemaps and honours per-route opt-out", async () => {
+      const env = crawlEnv({ sitemap: true }, { sitemap: false });
+
+      const app = await workerstack(new Request("https://example.com/app/sitemap.xml"), env as any);
+      assert.strictEqual(
+        await app.text(),
+        "<urlset><url><loc>https://example.com/app/pricing</loc></url></urlset>",
+      );
+
+      const index = await workerstack(new Request("https://example.com/sitemap.xml"), env as any);
+      assert.ok(!(await index.text()).includes("/docs/"));
+    });
+
+    void it("merges robots.txt with per-mount rules", async () => {
+      const env = crawlEnv({ sitemap: true, robots: true });
+
+      const resp = await workerstack(new Request("https://example.com/robots.txt"), env as any);
+      assert.strictEqual(
+        await resp.text(),
+        [
+          "User-agent: *",
+          "Disallow: /private",
+          "Disallow: /app/admin",
+          "Allow: /docs/public",
+          "",
+          "User-agent: BadBot",
+          "Disallow: /app/",
+          "",
+          "Sitemap: https://example.com/sitemap.xml",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    void it("leaves the paths to the root app when not enabled", async () => {
+      const env = crawlEnv({});
+
+      const sitemap = await workerstack(new Request("https://example.com/sitemap.xml"), env as any);
+      assert.strictEqual(await sitemap.text(), "<urlset><url><loc>/</loc></url></urlset>");
+
+      const robots = await workerstack(new Request("https://example.com/robots.txt"), env as any);
+      assert.match(await robots.text(), /Sitemap: https:\/\/example.com\/old.xml/);
+    });
+  });
+
+  void describe("merged OpenAPI", () => {
+    function specFetcher(spec: unknown, counter?: { count: number }) {
+      return mockFetcher((req) => {
+        if (new URL(req.url).pathname !== "/openapi.json") return new Response("", { status: 404 });
+        if (counter) counter.count++;
+        return Response.json(spec);
+      });
+    }
+
+    const apiSpec = {
+      openapi: "3.1.0",
+      paths: {
+        "/users": {
+          get: {
+            operationId: "listUsers",
+            responses: { 200: { $ref: "#/components/responses/Users" } },
+          },
+        },
+      },
+      components: {
+        schemas: { User: { type: "object", properties: { id: { type: "string" } } } },
+        responses: {
+          Users: {
+            description: "Users",
+            content: {
+              "application/json": {
+                schema: { type: "array", items: { $ref: "#/components/schemas/User" } },
+              },
+            },
+          },
+        },
+        securitySchemes: { token: { type: "http", scheme: "bearer" } },
+      },
+      security: [{ token: [] }],
+    };
+
+    const rootSpec = {
+      openapi: "3.0.3",
+      servers: [{ url: "https://example.com/v1" }],
+      paths: { "/users": { get: { operationId: "listUsers", responses: {} } } },
+      components: {
+        schemas: { User: { type: "object", properties: { name: { type: "string" } } } },
+        securitySchemes: { token: { type: "apiKey", in: "header", name: "x-token" } },
+      },
+    };
+
+    function openApiEnv(counter?: { count: number }) {
+      return {
+        ROUTES: {
+          routes: [
+            { binding: "ROOT", path: "/", openapi: true },
+            { binding: "APP_API", path: "/app/api", openapi: true },
+            { binding: "APP", path: "/app" },
+            {
+              binding: "ADMIN",
+              path: "/admin",
+              openapi: true,
+              auth: { type: "basic", credentials: "ADMIN_USERS" },
+            },
+          ],
+        },
+        ADMIN_USERS: "admin:secret",
+        WORKERSTACK_IDENTITY_SECRET: "identity-secret",
+        ADMIN: specFetcher({ paths: { "/users": { delete: {} } } }),
+        ROOT: specFetcher(structuredClone(rootSpec), counter),
+        APP_API: specFetcher(structuredClone(apiSpec), counter),
+        APP: specFetcher({ paths: { "/private": {} } }),
+      };
+    }
+
+    void it("prefixes paths with the mount and the spec's server path", async () => {
+      const resp = await workerstack(
+        new Request("https://example.com/__workerstack/openapi.json"),
+        openApiEnv() as any,
+      );
+      const doc = (await resp.json()) as any;
+
+      assert.strictEqual(resp.headers.get("content-type"), "application/json; charset=utf-8");
+      assert.strictEqual(doc.openapi, "3.1.0");
+      assert.deepStrictEqual(doc.servers, [{ url: "https://example.com" }]);
+      // The auth-protected /admin spec is never republished
+      assert.deepStrictEqual(Object.keys(doc.paths), ["/v1/users", "/app/api/users"]);
+    });
+
+    void it("renames clashing components and rewrites their references", async () => {
+      const resp = await workerstack(
+        new Request("https://example.com/__workerstack/openapi.json"),
+        openApiEnv() as any,
+      );
+      const doc = (await resp.json()) as any;
+
+      assert.deepStrictEqual(Object.keys(doc.components.schemas), ["User", "APP_API_User"]);
+      assert.strictEqual(
+        doc.components.responses.Users.content["application/json"].schema.items.$ref,
+        "#/components/schemas/APP_API_User",
+      );
+      assert.deepStrictEqual(doc.components.securitySchemes.APP_API_token, {
+        type: "http",
+        scheme: "bearer",
+      });
+
+      const operation = doc.paths["/app/api/users"].get;
+      assert.strictEqual(operation.operationId, "APP_API_listUsers");
+      assert.deepStrictEqual(operation.security, [{ APP_API_token: [] }]);
+      assert.strictEqual(doc.paths["/v1/users"].get.operationId, "listUsers");
+    });
+
+    void it("caches the merged document", async () => {
+      const counter = { count: 0 };
+      const env = openApiEnv(counter);
+
+      await workerstack(new Request("https://example.com/__workerstack/openapi.json"), env as any);
+      await workerstack(new Request("https://example.com/__workerstack/openapi.json"), env as any);
+      assert.strictEqual(counter.count, 2);
+    });
+
+    void it("routes normally when no route opted in", async () => {
       const env = {
+        ROUTES: { routes: [{ binding: "ROOT", path: "/" }] },
+        ROOT: mockFetcher((req) => new Response(new URL(req.url).pathname)),
+      };
+
+      const resp = await workerstack(
+        new Request("https://example.com/__workerstack/openapi.json"),
+        env as any,
+      );
+      assert.strictEqual(await resp.text(), "/__workerstack/openapi.json");
+    });
+  });
+
+  void describe("client runtime", () => {
+    function runtimeEnv(clientRuntime?: boolean) {
+      const fetcher = mockFetcher((req) => new Response(new URL(req.url).pathname));
+      return {
         ROUTES: {
+          clientRuntime,
           routes: [
             { binding: "ROOT", path: "/" },
+            { binding: "APP_API", path: "/app/api" },
             { binding: "APP", path: "/app" },
+            { binding: "ITEM", path: "/items/:id" },
+            { binding: "DOCS", path: "/docs", host: "docs.example.com" },
           ],
         },
-        ROOT: jsonFetcher({ service: "root" }),
-        APP: jsonFetcher({ service: "app" }),
+        ROOT: fetcher,
+        APP_API: fetcher,
+        APP: fetcher,
+        ITEM: fetcher,
+        DOCS: fetcher,
       };
+    }
 
-      const resp = await workerstack(new Request("https://example.com/other"), env as any);
-      assert.deepStrictEqual(await resp.json(), { service: "root" });
+    void it("serves the runtime with the host's static mounts", async () => {
+      const resp = await workerstack(
+        new Request("https://example.com/__workerstack/client.js"),
+        runtimeEnv(true) as any,
+      );
+      const source = await resp.text();
+
+      assert.strictEqual(resp.headers.get("content-type"), "text/javascript; charset=utf-8");
+      assert.strictEqual(resp.headers.get("cache-control"), "public, max-age=300");
+      const mounts = JSON.parse(source.match(/const mounts=(\{.*?\}),/)![1]);
+      assert.deepStrictEqual(mounts, { APP_API: "/app/api", APP: "/app", ROOT: "/" });
     });
 
-    void it("returns 404 when no route matches and no root", async () => {
-      const env = {
-        ROUTES: { routes: [{ binding: "APP", path: "/app" }] },
-        APP: jsonFetcher({ service: "app" }),
+    void it("resolves workerstack:// URLs passed to browser APIs", async () => {
+      const resp = await workerstack(
+        new Request("https://example.com/__workerstack/client.js"),
+        runtimeEnv(true) as any,
+      );
+      // Run the module as a classic script against stubbed browser APIs
+      const source = (await resp.text()).replace(/^export\{.*\};$/m, "");
+
+      const calls: unknown[][] = [];
+      const listeners: Record<string, (event: unknown) => void> = {};
+      class Link {
+        href = "workerstack://settings";
+        closest() {
+          return this;
+        }
+        getAttribute() {
+          return this.href;
+        }
+        setAttribute(_name: string, value: string) {
+          this.href = value;
+        }
+      }
+      const sandbox: any = {
+        __BASE_PATH__: "/app",
+        URL,
+        Element: Link,
+        location: { href: "https://example.com/app/" },
+        XMLHttpRequest: class {
+          open(method: string, url: string) {
+            calls.push(["xhr", method, url]);
+          }
+        },
+        EventSource: class {
+          constructor(url: string) {
+            calls.push(["sse", url]);
+          }
+        },
+        WebSocket: class {
+          constructor(url: string | URL) {
+            calls.push(["ws", String(url)]);
+          }
+        },
+        navigator: { sendBeacon: (url: string) => calls.push(["beacon", url]) },
+        history: {
+          pushState: (_state: unknown, _title: string, url?: string) => calls.push(["push", url]),
+          replaceState: (_state: unknown, _title: string, url?: string) =>
+            calls.push(["replace", url]),
+        },
+        addEventListener: (type: string, listener: (event: unknown) => void) => {
+          listeners[type] = listener;
+        },
       };
+      sandbox.window = sandbox;
+      runInNewContext(source, sandbox);
 
-      const resp = await workerstack(new Request("https://example.com/other"), env as any);
-      assert.strictEqual(resp.status, 404);
+      new sandbox.XMLHttpRequest().open("GET", "workerstack://api/data");
+      new sandbox.EventSource("workerstack://events");
+      new sandbox.WebSocket("workerstack://ws");
+      new sandbox.WebSocket("wss://other.example.com/ws");
+      sandbox.navigator.sendBeacon("workerstack://beacon");
+      sandbox.history.pushState(null, "", "workerstack://page");
+      sandbox.history.replaceState(null, "", "/untouched");
+      const link = new Link();
+      listeners.click({ target: link });
+
+      assert.deepStrictEqual(calls, [
+        ["xhr", "GET", "/app/api/data"],
+        ["sse", "/app/events"],
+        ["ws", "wss://example.com/app/ws"],
+        ["ws", "wss://other.example.com/ws"],
+        ["beacon", "/app/beacon"],
+        ["push", "/app/page"],
+        ["replace", "/untouched"],
+      ]);
+      assert.strictEqual(link.href, "/app/settings");
+      assert.strictEqual(sandbox.mountUrl("workerstack://x"), "/app/x");
+      assert.strictEqual(sandbox.crossMountUrl("app-api", "/x"), "/app/api/x");
+      assert.throws(() => sandbox.crossMountUrl("docs"), /Unknown workerstack mount "docs"/);
     });
 
-    void it("matches sub-paths under a mount", async () => {
-      const env = {
-        ROUTES: { routes: [{ binding: "DOCS", path: "/docs" }] },
-        DOCS: echoPathFetcher(),
+    void it("serves the same mount helpers as client.ts", async () => {
+      const resp = await workerstack(
+        new Request("https://example.com/__workerstack/client.js"),
+        runtimeEnv(true) as any,
+      );
+      const source = (await resp.text()).replace(/^export\{.*\};$/m, "");
+      const sandbox: any = {
+        __BASE_PATH__: "/app",
+        XMLHttpRequest: class {},
+        history: {},
+        navigator: {},
+        addEventListener: () => {},
+      };
+      sandbox.window = sandbox;
+      runInNewContext(source, sandbox);
+
+      const globals = globalThis as any;
+      globals.__BASE_PATH__ = sandbox.__BASE_PATH__;
+      globals.__WORKERSTACK_MOUNTS__ = sandbox.__WORKERSTACK_MOUNTS__;
+      const outcome = (fn: () => string) => {
+        try {
+          return fn();
+        } catch (error) {
+          return (error as Error).message;
+        }
       };
+      try {
+        for (const path of [undefined, "/", "api/data?x=1", "//api", "workerstack://settings"]) {
+          assert.strictEqual(sandbox.mountUrl(path), mountUrl(path));
+          for (const name of ["app-api", "ROOT", "docs"]) {
+            assert.strictEqual(
+              outcome(() => sandbox.crossMountUrl(name, path)),
+              outcome(() => crossMountUrl(name, path)),
+            );
+          }
+        }
+      } finally {
+        delete globals.__BASE_PATH__;
+        delete globals.__WORKERSTACK_MOUNTS__;
+      }
+    });
 
+    void it("leaves the path to the routes when not enabled", async () => {
       const resp = await workerstack(
-        new Request("https://example.com/docs/getting-started"),
-        env as any,
+        new Request("https://example.com/__workerstack/client.js"),
+        runtimeEnv() as any,
       );
-      assert.deepStrictEqual(await resp.json(), { path: "/getting-started" });
+      assert.strictEqual(await resp.text(), "/__workerstack/client.js");
     });
   });
 
@@ -221,6 +2933,141 @@ void describe("WorkerStack", () => {
     });
   });
 
+  void describe("CSS streaming", () => {
+    function streamingCssFetcher(chunks: string[], release: Promise<void>) {
+      return mockFetcher(() => {
+        const encoder = new TextEncoder();
+        const body = new ReadableStream<Uint8Array>({
+          async start(controller) {
+            const [first, ...rest] = chunks;
+            controller.enqueue(encoder.encode(first));
+            await release;
+            for (const chunk of rest) controller.enqueue(encoder.encode(chunk));
+            controller.close();
+          },
+        });
+        return new Response(body, { headers: { "content-type": "text/css" } });
+      });
+    }
+
+    void it("emits rewritten CSS before the upstream body finishes", async () => {
+      let resolve!: () => void;
+      const release = new Promise<void>((r) => (resolve = r));
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app" }] },
+        APP: streamingCssFetcher(["a { background: url(/assets/a.png); }", "b {}"], release),
+      };
+
+      const resp = await workerstack(new Request("https://example.com/app/s.css"), env as any);
+      const reader = resp.body!.pipeThrough(new TextDecoderStream()).getReader();
+
+      const first = await reader.read();
+      assert.strictEqual(first.value, "a { background: url(/app/assets/a.png); }");
+
+      resolve();
+      let rest = "";
+      for (let r = await reader.read(); !r.done; r = await reader.read()) rest += r.value;
+      assert.strictEqual(rest, "b {}");
+    });
+
+    void it("rewrites url() and @import tokens split across chunks", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app" }] },
+        APP: streamingCssFetcher(
+          ['@import "/ass', 'ets/theme.css"; a { background: url(  ', "'/static/x.png'); }"],
+          Promise.resolve(),
+        ),
+      };
+
+      const resp = await workerstack(new Request("https://example.com/app/s.css"), env as any);
+      assert.strictEqual(
+        await resp.text(),
+        `@import "/app/assets/theme.css"; a { background: url('/app/static/x.png'); }`,
+      );
+    });
+
+    void it("drops content-length and weakens the etag of rewritten CSS", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app" }] },
+        APP: mockFetcher(
+          () =>
+            new Response("a{}", {
+              headers: { "content-type": "text/css", "content-length": "3", etag: '"abc"' },
+            }),
+        ),
+      };
+
+      const resp = await workerstack(new Request("https://example.com/app/s.css"), env as any);
+      assert.strictEqual(resp.headers.get("content-length"), null);
+      assert.match(resp.headers.get("etag")!, /^W\/"abc-ws[a-z0-9]+"$/);
+    });
+  });
+
+  void describe("JavaScript rewriting", () => {
+    function jsFetcher(chunks: string[]) {
+      return mockFetcher(() => {
+        const encoder = new TextEncoder();
+        const body = new ReadableStream<Uint8Array>({
+          start(controller) {
+            for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+            controller.close();
+          },
+        });
+        return new Response(body, { headers: { "content-type": "text/javascript" } });
+      });
+    }
+
+    void it("leaves JavaScript untouched unless rewriteJs is enabled", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app" }] },
+        APP: jsFetcher(['import("/assets/chunk.js");']),
+      };
+
+      const resp = await workerstack(new Request("https://example.com/app/a.js"), env as any);
+      assert.strictEqual(await resp.text(), 'import("/assets/chunk.js");');
+    });
+
+    void it("prefixes asset string literals when enabled per route", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app", rewriteJs: true }] },
+        APP: jsFetcher([
+          'import("/assets/chunk.js"); new URL(`/static/x.wasm`, import.meta.url);',
+          ' fetch("/api/data"); "/app/assets/already.js";',
+        ]),
+      };
+
+      const resp = await workerstack(new Request("https://example.com/app/a.js"), env as any);
+      assert.strictEqual(
+        await resp.text(),
+        'import("/app/assets/chunk.js"); new URL(`/app/static/x.wasm`, import.meta.url);' +
+          ' fetch("/api/data"); "/app/assets/already.js";',
+      );
+    });
+
+    void it("rewrites literals split across chunks", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app" }], rewriteJs: true },
+        APP: jsFetcher(["const a = '/as", "sets/a.js', b = \"", '/build/b.js";']),
+      };
+
+      const resp = await workerstack(new Request("https://example.com/app/a.js"), env as any);
+      assert.strictEqual(
+        await resp.text(),
+        "const a = '/app/assets/a.js', b = \"/app/build/b.js\";",
+      );
+    });
+
+    void it("lets a route opt out of the global default", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app", rewriteJs: false }], rewriteJs: true },
+        APP: jsFetcher(['import("/assets/chunk.js");']),
+      };
+
+      const resp = await workerstack(new Request("https://example.com/app/a.js"), env as any);
+      assert.strictEqual(await resp.text(), 'import("/assets/chunk.js");');
+    });
+  });
+
   void describe("cookie rewriting", () => {
     void it("rewrites Set-Cookie paths for mounted apps", async () => {
       const env = {
@@ -267,14 +3114,28 @@ void describe("WorkerStack", () => {
       );
     });
 
-    void it("throws when binding is not found in env", async () => {
+    void it("answers 503 for routes whose binding is not found in env", async (t) => {
+      const warn = t.mock.method(console, "warn", () => {});
       const env = {
-        ROUTES: { routes: [{ binding: "APP", path: "/app" }] },
+        ROUTES: {
+          routes: [
+            { binding: "APP", path: "/app" },
+            { binding: "DOCS", path: "/docs" },
+          ],
+        },
+        DOCS: jsonFetcher({ service: "docs" }),
       };
 
-      await assert.rejects(workerstack(new Request("https://example.com/app"), env as any), {
-        message: /Binding "APP" not found/,
-      });
+      const resp = await workerstack(
+        new Request("https://example.com/app", { headers: { accept: "application/json" } }),
+        env as any,
+      );
+      assert.strictEqual(resp.status, 503);
+      assert.strictEqual(((await resp.json()) as any).error.message, "Service unavailable");
+      assert.match(String(warn.mock.calls[0].arguments[0]), /Binding "APP" not found/);
+
+      const docs = await workerstack(new Request("https://example.com/docs"), env as any);
+      assert.deepStrictEqual(await docs.json(), { service: "docs" });
     });
 
     void it("throws on invalid route config (missing binding)", async () => {
@@ -287,6 +3148,17 @@ void describe("WorkerStack", () => {
       });
     });
 
+    void it("throws on an invalid csp mode", async () => {
+      const env = {
+        ROUTES: { routes: [{ binding: "APP", path: "/app", csp: "strict" }] },
+        APP: jsonFetcher({}),
+      };
+
+      await assert.rejects(workerstack(new Request("https://example.com/app"), env as any), {
+        message: /Invalid csp mode "strict"/,
+      });
+    });
+
     void it("parses ROUTES from JSON string", async () => {
       const env = {
         ROUTES: JSON.stringify({ routes: [{ binding: "APP", path: "/app" }] }),
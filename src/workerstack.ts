@@ -1,4 +1,5 @@
-import { env } from "cloudflare:workers";
+import { DurableObject, env, waitUntil } from "cloudflare:workers";
+import { crossMountUrl, mountUrl } from "./client.ts";
 
 /**
  * WorkerStack Microfrontend Router
@@ -51,25 +52,457 @@ function buildAssetPrefixes(envObj: typeof env = env): string[] {
 type RouteConfig = {
   binding: string;
   path: string;
+  host?: string;
   preload?: boolean;
+  rewriteJs?: boolean;
+  csp?: CspMode;
+  /** Weighted split across bindings; `binding` is used when all weights are 0 */
+  variants?: VariantConfig[];
+  /** How a client is kept on its variant (default: a per-route cookie) */
+  sticky?: { cookie?: string; header?: string };
+  /** Retry the next less-specific route on these statuses (`true` = 404) */
+  fallthrough?: boolean | number[];
+  /** Milliseconds to wait for upstream response headers before answering 504 */
+  timeout?: number;
+  /** Path routed like any request to render errors; `{status}` is substituted */
+  errorPage?: string;
+  /** Replace upstream responses with these statuses by the error page (`true` = 5xx) */
+  interceptErrors?: boolean | number[];
+  /** Gate requests before they reach the binding */
+  auth?: AuthConfig;
+  /** CORS for the mount; preflights are answered without calling the binding */
+  cors?: CorsConfig | false;
+  /** `true` applies the recommended defaults */
+  security?: boolean | SecurityHeadersConfig;
+  headers?: HeaderRulesConfig;
+  rateLimit?: RateLimitConfig;
+  cache?: CacheConfig;
+  /** Opt-in URL rewriting of API and feed bodies */
+  rewriteBody?: BodyRewriteConfig;
+  /** List the mount's sitemap in the aggregated /sitemap.xml */
+  sitemap?: boolean;
+  /** Merge the mount's robots.txt into /robots.txt */
+  robots?: boolean;
+  /** Include the mount's OpenAPI document (`true` = /openapi.json) in the merged one */
+  openapi?: boolean | string;
+};
+
+type BodyRewriteConfig = {
+  /**
+   * JSON pointers whose string values are scoped to the mount. `*` matches
+   * any key or index and `**` any depth; "hal" and "jsonapi" add their link fields.
+   */
+  json?: string[];
+  /** `<loc>`, `<link>` and `<link href>` in sitemaps and RSS / Atom feeds */
+  xml?: boolean;
+};
+
+type CacheConfig = {
+  /** Seconds to cache responses for asset-prefix paths */
+  assets?: number;
+  /** Seconds to cache rewritten HTML, keyed by mount */
+  html?: number;
+  /** Seconds a stale entry is served while it is refreshed in the background */
+  staleWhileRevalidate?: number;
+};
+
+type RateLimitConfig = {
+  /** A Rate Limiting binding (`ratelimits`) or a Durable Object namespace running `RateLimiter` */
+  type: "binding" | "durableObject";
+  binding: string;
+  /** "ip" (default), "header:<name>" or "cookie:<name>" */
+  key?: string;
+  /** durableObject: requests allowed per period */
+  limit?: number;
+  /** Window in seconds, also sent as `Retry-After` for binding limits (default 60) */
+  period?: number;
+};
+
+type CorsConfig = {
+  /** Exact origins, `https://*.example.com` wildcards, or "*" */
+  origins: string[] | "*";
+  methods?: string[];
+  /** Request headers allowed in preflights (default: whatever was requested) */
+  headers?: string[];
+  exposeHeaders?: string[];
+  credentials?: boolean;
+  maxAge?: number;
+};
+
+type SecurityHeadersConfig = {
+  hsts?: boolean | string;
+  frameOptions?: "DENY" | "SAMEORIGIN" | false;
+  referrerPolicy?: string | false;
+  permissionsPolicy?: string;
+  contentTypeOptions?: boolean;
+};
+
+type HeaderRulesConfig = {
+  /** Override whatever the upstream sent */
+  set?: Record<string, string>;
+  /** Only applied when the upstream did not send the header */
+  default?: Record<string, string>;
+  append?: Record<string, string>;
+  remove?: string[];
+};
+
+type AuthConfig = {
+  type: "jwt" | "basic" | "access";
+  /** jwt: JWKS endpoint for RS256 / ES256 tokens */
+  jwksUrl?: string;
+  /** jwt: env secret holding an HS256 shared secret */
+  secret?: string;
+  issuer?: string;
+  audience?: string;
+  /** jwt: cookie carrying the token when there is no `Authorization` header */
+  cookie?: string;
+  /** access: Cloudflare Access team, i.e. `<team>.cloudflareaccess.com` */
+  team?: string;
+  /** basic: env secret with one `user:password` pair per line */
+  credentials?: string;
+  realm?: string;
+  /** jwt / access: emails or `@domain` entries allowed through */
+  allow?: string[];
+  /** Where unauthenticated page loads are redirected, relative to a login mount */
+  login?: { mount: string; path?: string };
+};
+
+type VariantConfig = {
+  binding: string;
+  weight: number;
+  name?: string;
+};
+
+type RoutesConfig = {
+  routes: RouteConfig[];
+  smoothTransitions?: boolean;
+  /** Load /__workerstack/client.js into HTML pages to extend the workerstack:// scheme */
+  clientRuntime?: boolean;
+  /** Default for routes that do not set `rewriteJs` themselves */
+  rewriteJs?: boolean;
+  /** How injected elements are allowed by an upstream CSP (default "nonce") */
+  csp?: CspMode;
+  /** `<workerstack-fragment>` composition; `false` disables it */
+  fragments?: boolean | Partial<FragmentOptions>;
+  /** Defaults for routes that do not set `timeout` / `errorPage` themselves */
+  timeout?: number;
+  errorPage?: string;
+  /** Env secret used to sign forwarded identities (default WORKERSTACK_IDENTITY_SECRET) */
+  identitySecret?: string;
+  /** Header policies for routes that do not set their own */
+  cors?: CorsConfig | false;
+  security?: boolean | SecurityHeadersConfig;
+  headers?: HeaderRulesConfig;
+  cache?: CacheConfig;
+  /** Answered before route matching, in order; the first match wins */
+  redirects?: RedirectConfig[];
+  /** Serve `source` as if `destination` had been requested, before route matching */
+  rewrites?: RewriteConfig[];
+  /**
+   * Written by the compile script when `redirects` and `rewrites` come from a
+   * `_redirects` file, so a later build can remove them with the file. The
+   * router ignores it.
+   */
+  _redirects?: boolean;
+  /** Redirect to add or remove trailing slashes (default "preserve") */
+  trailingSlash?: "always" | "never" | "preserve";
+  /** Request ids, `traceparent`, `Server-Timing` and JSON logs; overridden by WORKERSTACK_TRACING */
+  tracing?: boolean | TracingConfig;
+  /** Write a data point per request to this Analytics Engine dataset */
+  analytics?: AnalyticsConfig;
+  /** Serve /sitemap.xml and /robots.txt aggregated from the mounts; routes can opt out */
+  sitemap?: boolean;
+  robots?: boolean;
+  /** Token-gated `/__workerstack/*` endpoints, open when WORKERSTACK_DEV is set (default false) */
+  introspection?: boolean | IntrospectionConfig;
+};
+
+type IntrospectionConfig = {
+  /** Env secret holding the bearer token (default WORKERSTACK_INTROSPECTION_TOKEN) */
+  token?: string;
+};
+
+type TracingConfig = {
+  /** Append route, upstream and rewrite phases to `Server-Timing` (default true) */
+  serverTiming?: boolean;
+  /** Write one JSON log line per request (default true) */
+  logs?: boolean;
+};
+
+type RedirectConfig = {
+  /** Path expression, e.g. `/blog/:slug` or `/docs/:rest*` */
+  source: string;
+  /** Path or URL; `:name` is replaced by the captured param */
+  destination: string;
+  status?: 301 | 302 | 303 | 307 | 308;
+};
+
+type RewriteConfig = {
+  source: string;
+  destination: string;
 };
 
 type CompiledRoute = {
   expr: string;
   binding: Fetcher;
+  bindingName: string;
+  /** The binding was missing from env */
+  unavailable?: boolean;
   preload?: boolean;
+  rewriteJs?: boolean;
+  csp: CspMode;
+  variants?: CompiledVariant[];
+  variantCookie?: string;
+  variantHeader?: string;
+  fallthrough?: number[];
+  timeout?: number;
+  errorPage?: string;
+  interceptErrors?: (status: number) => boolean;
+  auth?: CompiledAuth;
+  headerPolicy?: HeaderPolicy;
+  rateLimit?: CompiledRateLimit;
+  cache?: CacheConfig;
+  /** Parsed JSON pointers */
+  rewriteJson?: string[][];
+  rewriteXml?: boolean;
+  sitemap?: boolean;
+  robots?: boolean;
+  /** Path of the sub-app's OpenAPI document */
+  openapi?: string;
   re: RegExp;
   isStaticMount: boolean;
   staticMount?: string;
+  paramNames: string[];
   baseSpecificity: number;
+  host?: string;
+  hostRe?: RegExp;
+  hostParamNames: string[];
+  hostSpecificity: number;
+};
+
+type CompiledVariant = {
+  name: string;
+  binding: Fetcher;
+  weight: number;
 };
 
+type MountTrieNode = {
+  children: Map<string, MountTrieNode>;
+  routes: CompiledRoute[];
+};
+
+type CompiledRouter = {
+  routes: CompiledRoute[];
+  staticTrie: MountTrieNode;
+  dynamicRoutes: CompiledRoute[];
+  rootRoutes: CompiledRoute[];
+  preloadRoutes: CompiledRoute[];
+  assetPrefixes: string[];
+  smoothTransitions?: boolean;
+  clientRuntime?: boolean;
+  fragments: FragmentOptions | null;
+  errorPage?: string;
+  identityKey?: Promise<CryptoKey>;
+  redirects: CompiledPathRule[];
+  rewrites: CompiledPathRule[];
+  trailingSlash: "always" | "never" | "preserve";
+  tracing?: Required<TracingConfig>;
+  analytics?: AnalyticsEngineDataset;
+  introspection?: CompiledIntrospection;
+};
+
+type RouteMatch = {
+  route: CompiledRoute;
+  mountActual: string;
+  params: Record<string, string>;
+  score: number;
+};
+
+/* ------------------------------ route params ------------------------------ */
+
+const PARAMS_HEADER = "x-workerstack-params";
+const MOUNT_HEADER = "x-workerstack-mount";
+const ROUTE_HEADER = "x-workerstack-route";
+
+export type RouteInfo<P extends Record<string, string> = Record<string, string>> = {
+  /** Named params captured from the route expression, e.g. `{ org: "acme" }` */
+  params: P;
+  /** The matched mount path as seen by the client, e.g. `/org/acme/app` */
+  mount: string;
+  /** The route expression that matched, e.g. `/org/:org/app` */
+  route: string;
+};
+
+/**
+ * Reads the route info forwarded by the router to a mounted sub-app.
+ * Returns null when the request did not come through workerstack.
+ *
+ * @example
+ * const info = getRouteInfo<{ org: string }>(request);
+ * info?.params.org; // "acme"
+ */
+export function getRouteInfo<P extends Record<string, string> = Record<string, string>>(
+  request: Request,
+): RouteInfo<P> | null {
+  const mount = request.headers.get(MOUNT_HEADER);
+  const route = request.headers.get(ROUTE_HEADER);
+  if (mount === null || route === null) return null;
+
+  let params = {} as P;
+  try {
+    const parsed = JSON.parse(request.headers.get(PARAMS_HEADER) || "{}");
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) params = parsed;
+  } catch {
+    // Treat malformed params as empty
+  }
+
+  return { params, mount, route };
+}
+
+function extractParams(m: RegExpExecArray, paramNames: string[]): Record<string, string> {
+  const params: Record<string, string> = {};
+  paramNames.forEach((name, i) => {
+    const value = m.groups?.[`p${i}`];
+    if (value === undefined) return;
+    try {
+      params[name] = decodeURIComponent(value);
+    } catch {
+      params[name] = value;
+    }
+  });
+  return params;
+}
+
+/* ---------------------------- traffic splitting ---------------------------- */
+
+const VARIANT_HEADER = "x-workerstack-variant";
+const VARIANT_PARAM = "__variant";
+
+/** FNV-1a, used to bucket sticky header values deterministically */
+function hashString(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function pickWeighted(variants: CompiledVariant[], roll: number): CompiledVariant | undefined {
+  const total = variants.reduce((sum, v) => sum + v.weight, 0);
+  if (total <= 0) return undefined;
+
+  let point = roll * total;
+  for (const variant of variants) {
+    if (point < variant.weight) return variant;
+    point -= variant.weight;
+  }
+  return variants[variants.length - 1];
+}
+
+/**
+ * Picks the variant for a request. A `__variant` query param or
+ * `X-Workerstack-Variant` header naming a variant forces it (for QA);
+ * otherwise the sticky cookie is honored, or the sticky header is hashed,
+ * before falling back to a weighted random pick.
+ */
+function selectVariant(
+  route: CompiledRoute,
+  request: Request,
+  url: URL,
+): { variant: CompiledVariant; setCookie: boolean } | null {
+  const variants = route.variants;
+  if (!variants?.length) return null;
+
+  const byName = (name: string | null | undefined) =>
+    name ? variants.find((v) => v.name === name) : undefined;
+
+  const forced =
+    byName(url.searchParams.get(VARIANT_PARAM)) ?? byName(request.headers.get(VARIANT_HEADER));
+  const cookie = route.variantCookie ? readCookie(request, route.variantCookie) : undefined;
+
+  let variant = forced ?? byName(cookie);
+  if (!variant) {
+    const stickyValue = route.variantHeader ? request.headers.get(route.variantHeader) : null;
+    const roll = stickyValue
+      ? hashString(`${route.host ?? ""}${route.expr}:${stickyValue}`) / 0x100000000
+      : Math.random();
+    variant = pickWeighted(variants, roll);
+  }
+  if (!variant) return null;
+
+  return { variant, setCookie: !!route.variantCookie && cookie !== variant.name };
+}
+
+function compileVariants(
+  r: RouteConfig,
+  envObj: typeof env,
+): Pick<CompiledRoute, "variants" | "variantCookie" | "variantHeader"> {
+  if (r.variants === undefined) return {};
+  if (!Array.isArray(r.variants) || r.variants.length === 0) {
+    throw new Error(`Route "${r.path}" variants must be a non-empty array.`);
+  }
+
+  const variants = r.variants.flatMap((v): CompiledVariant[] => {
+    if (typeof v?.weight !== "number" || !(v.weight >= 0)) {
+      throw new Error(`Variant "${v?.binding}" of route "${r.path}" needs a non-negative weight.`);
+    }
+    const binding = (envObj as any)[v.binding];
+    // A missing variant sends its share to the route's own binding
+    if (!isFetcher(binding)) {
+      console.warn(`Binding "${v.binding}" not found; variant of "${r.path}" is skipped.`);
+      return [];
+    }
+    return [{ name: v.name ?? v.binding, binding, weight: v.weight }];
+  });
+  if (!variants.length) return {};
+
+  const header = r.sticky?.header?.toLowerCase();
+  const cookie = header
+    ? undefined
+    : (r.sticky?.cookie ?? `wsv_${hashString(`${r.host ?? ""}${r.path}`).toString(36)}`);
+
+  return { variants, variantCookie: cookie, variantHeader: header };
+}
+
 /* ----------------------------- utilities ----------------------------- */
 
+function isFetcher(value: unknown): value is Fetcher {
+  return !!value && typeof (value as Fetcher).fetch === "function";
+}
+
+/** Stands in for a missing binding; requests to its route are answered with 503 */
+const UNAVAILABLE_BINDING = {
+  fetch: () => Promise.reject(new Error("Service binding unavailable")),
+} as unknown as Fetcher;
+
+/** Reads an on/off env var such as WORKERSTACK_TRACING; undefined when unset */
+function envFlag(envObj: typeof env, name: string): boolean | undefined {
+  const value = (envObj as any)[name];
+  if (value === undefined) return undefined;
+  return !["", "0", "false", "off"].includes(String(value).trim().toLowerCase());
+}
+
+function readCookie(request: Request, name: string): string | undefined {
+  for (const pair of (request.headers.get("cookie") || "").split(";")) {
+    const idx = pair.indexOf("=");
+    if (idx !== -1 && pair.slice(0, idx).trim() === name) return pair.slice(idx + 1).trim();
+  }
+  return undefined;
+}
+
 function hasAssetPrefix(path: string, assetPrefixes: string[]): boolean {
   return assetPrefixes.some((p) => path.startsWith(p));
 }
 
+/** Prefixes a root-relative asset path with the mount, leaving anything else untouched. */
+function rewriteAssetPath(path: string, mount: string, assetPrefixes: string[]): string {
+  if (mount === "/" || !path.startsWith("/")) return path;
+  if (path.startsWith(mount + "/")) return path;
+  if (!hasAssetPrefix(path, assetPrefixes)) return path;
+  return mount + path;
+}
+
 function normalizePath(path: string): string {
   if (!path.startsWith("/")) path = "/" + path;
   if (path !== "/" && path.endsWith("/")) path = path.slice(0, -1);
@@ -84,7 +517,11 @@ function unescapePathLiterals(s: string): string {
   return s.replace(/\\(.)/g, "$1");
 }
 
-function segmentToRegex(segmentExpr: string): string {
+/**
+ * Params are captured as `(?<pN>...)` named groups, with N indexing into
+ * `paramNames`, so user-supplied `(regex)` groups never shift capture indexes.
+ */
+function segmentToRegex(segmentExpr: string, paramNames: string[]): string {
   let out = "";
   let i = 0;
 
@@ -107,6 +544,10 @@ function segmentToRegex(segmentExpr: string): string {
       const name = nameMatch[1];
       i += 1 + name.length;
 
+      if (paramNames.includes(name)) throw new Error(`Duplicate param ":${name}"`);
+      const group = `?<p${paramNames.length}>`;
+      paramNames.push(name);
+
       if (segmentExpr[i] === "(") {
         let depth = 0;
         let j = i;
@@ -126,10 +567,10 @@ function segmentToRegex(segmentExpr: string): string {
 
         const inner = segmentExpr.slice(i + 1, j);
         const innerRegex = unescapePathLiterals(inner);
-        out += `(${innerRegex})`;
+        out += `(${group}${innerRegex})`;
         i = j + 1;
       } else {
-        out += "([^/]+)";
+        out += `(${group}[^/]+)`;
       }
       continue;
     }
@@ -151,6 +592,7 @@ function compilePathExpr(exprRaw: string): {
   re: RegExp;
   isStaticMount: boolean;
   staticMount?: string;
+  paramNames: string[];
 } {
   const expr = normalizePath(exprRaw.trim());
 
@@ -160,13 +602,14 @@ function compilePathExpr(exprRaw: string): {
   if (isStaticMount) {
     const mount = expr;
     const re = new RegExp(`^(${escapeRegexLiteral(mount)})(?:/.*)?$`);
-    return { re, isStaticMount: true, staticMount: mount };
+    return { re, isStaticMount: true, staticMount: mount, paramNames: [] };
   }
 
   const parts = expr.split("/").filter(Boolean);
   const last = parts[parts.length - 1] ?? "";
   const mStarPlus = last.match(/^:([A-Za-z0-9_]+)([*+])$/);
 
+  const paramNames: string[] = [];
   let mountPattern = "^/";
 
   for (let i = 0; i < parts.length; i++) {
@@ -174,7 +617,7 @@ function compilePathExpr(exprRaw: string): {
 
     if (mStarPlus && i === parts.length - 1) break;
 
-    mountPattern += segmentToRegex(part);
+    mountPattern += segmentToRegex(part, paramNames);
 
     if (i < parts.length - 1 && !(mStarPlus && i === parts.length - 2)) {
       mountPattern += "/";
@@ -184,20 +627,67 @@ function compilePathExpr(exprRaw: string): {
   mountPattern = mountPattern.replace(/\/$/, "");
 
   if (mStarPlus) {
-    const op = mStarPlus[2];
+    const [, name, op] = mStarPlus;
+    if (paramNames.includes(name)) throw new Error(`Duplicate param ":${name}"`);
+    const group = `?<p${paramNames.length}>`;
+    paramNames.push(name);
+
     if (op === "*") {
-      const re = new RegExp(`^(${mountPattern})(?:/.*)?$`);
-      return { re, isStaticMount: false };
+      const re = new RegExp(`^(${mountPattern})(?:/(${group}.*))?$`);
+      return { re, isStaticMount: false, paramNames };
     } else {
-      const re = new RegExp(`^(${mountPattern})/.+$`);
-      return { re, isStaticMount: false };
+      const re = new RegExp(`^(${mountPattern})/(${group}.+)$`);
+      return { re, isStaticMount: false, paramNames };
     }
   } else {
     const re = new RegExp(`^(${mountPattern})(?:/.*)?$`);
-    return { re, isStaticMount: false };
+    return { re, isStaticMount: false, paramNames };
   }
 }
 
+/**
+ * Compiles a hostname pattern. Each dot-separated label is either a literal,
+ * `:name` (captures exactly one label) or `*` (one or more labels):
+ *
+ *   app.example.com      -> exact host
+ *   :tenant.example.com  -> acme.example.com, params.tenant = "acme"
+ *   *.example.com        -> any subdomain of example.com
+ */
+function compileHostExpr(hostRaw: string): {
+  re: RegExp;
+  paramNames: string[];
+  specificity: number;
+} {
+  const host = hostRaw.trim().toLowerCase().replace(/\.$/, "");
+  if (!host) throw new Error(`Invalid host pattern: "${hostRaw}"`);
+
+  const paramNames: string[] = [];
+  let literalLength = 0;
+
+  const labels = host.split(".").map((label) => {
+    if (label === "*") return "[^.]+(?:\\.[^.]+)*";
+
+    const param = label.match(/^:([A-Za-z0-9_]+)$/);
+    if (param) {
+      if (paramNames.includes(param[1])) throw new Error(`Duplicate param ":${param[1]}"`);
+      const group = `?<p${paramNames.length}>`;
+      paramNames.push(param[1]);
+      return `(${group}[^.]+)`;
+    }
+
+    if (!label || /[*:]/.test(label)) throw new Error(`Invalid host pattern: "${hostRaw}"`);
+    literalLength += label.length;
+    return escapeRegexLiteral(label);
+  });
+
+  return {
+    re: new RegExp(`^${labels.join("\\.")}$`),
+    paramNames,
+    // Any host constraint outranks none; literal labels outrank wildcards
+    specificity: 1 + literalLength,
+  };
+}
+
 /* ---------------------- HTML rewriting + injection ---------------------- */
 
 class AllAttributesRewriter {
@@ -297,12 +787,40 @@ class AllAttributesRewriter {
   }
 }
 
+function nonceAttr(nonce?: string): string {
+  return nonce ? ` nonce="${nonce}"` : "";
+}
+
+function mountPathScript(mount: string): string {
+  // Root-relative service worker scripts and scopes are moved under the mount
+  const swOverride =
+    `(function(){` +
+    `var b=window.__BASE_PATH__,n=navigator.serviceWorker;if(b==="/"||!n)return;var g=n.register;` +
+    `function p(u){return typeof u==="string"&&u[0]==="/"&&u[1]!=="/"&&u.indexOf(b+"/")!==0?b+u:u}` +
+    `n.register=function(u,o){` +
+    `if(o&&o.scope)o=Object.assign({},o,{scope:p(o.scope)});` +
+    `return g.call(n,p(u),o)}` +
+    `})()`;
+  const fetchOverride =
+    `(function(){` +
+    `var b=window.__BASE_PATH__,s="workerstack://",f=globalThis.fetch;` +
+    `function r(u){return(b==="/"?"/":b+"/")+u.slice(s.length)}` +
+    `globalThis.fetch=function(i,o){` +
+    `if(typeof i==="string"&&i.startsWith(s)){i=r(i)}` +
+    `else if(i instanceof Request&&i.url.startsWith(s)){i=new Request(r(i.url),i)}` +
+    `return f.call(globalThis,i,o)}` +
+    `})()`;
+  return `window.__BASE_PATH__=${JSON.stringify(mount)};${fetchOverride};${swOverride}`;
+}
+
 class MountPathInjector {
   private injected = false;
   private mount: string;
+  private nonce?: string;
 
-  constructor(mount: string) {
+  constructor(mount: string, nonce?: string) {
     this.mount = normalizePath(mount);
+    this.nonce = nonce;
   }
 
   element(el: Element) {
@@ -310,31 +828,15 @@ class MountPathInjector {
     this.injected = true;
 
     const basePath = this.mount === "/" ? "/" : this.mount + "/";
-    const fetchOverride =
-      `(function(){` +
-      `var b=window.__BASE_PATH__,s="workerstack://",f=globalThis.fetch;` +
-      `function r(u){return(b==="/"?"/":b+"/")+u.slice(s.length)}` +
-      `globalThis.fetch=function(i,o){` +
-      `if(typeof i==="string"&&i.startsWith(s)){i=r(i)}` +
-      `else if(i instanceof Request&&i.url.startsWith(s)){i=new Request(r(i.url),i)}` +
-      `return f.call(globalThis,i,o)}` +
-      `})()`;
     el.prepend(
-      `<script>window.__BASE_PATH__=${JSON.stringify(this.mount)};${fetchOverride}</script>` +
+      `<script${nonceAttr(this.nonce)}>${mountPathScript(this.mount)}</script>` +
         `<base href="${basePath}">`,
       { html: true },
     );
   }
 }
 
-class SmoothTransitionsInjector {
-  private injected = false;
-
-  element(el: Element) {
-    if (this.injected) return;
-    this.injected = true;
-
-    const css = `@supports (view-transition-name: none) {
+const SMOOTH_TRANSITIONS_CSS = `@supports (view-transition-name: none) {
   ::view-transition-old(root),
   ::view-transition-new(root) {
     animation-duration: 0.3s;
@@ -343,364 +845,3667 @@ class SmoothTransitionsInjector {
   main { view-transition-name: main-content; }
   nav { view-transition-name: navigation; }
 }`;
-    el.append(`<style>${css}</style>`, { html: true });
+
+class SmoothTransitionsInjector {
+  private injected = false;
+  private nonce?: string;
+
+  constructor(nonce?: string) {
+    this.nonce = nonce;
+  }
+
+  element(el: Element) {
+    if (this.injected) return;
+    this.injected = true;
+    el.append(`<style${nonceAttr(this.nonce)}>${SMOOTH_TRANSITIONS_CSS}</style>`, { html: true });
+  }
+}
+
+class ClientRuntimeInjector {
+  private injected = false;
+  private nonce?: string;
+
+  constructor(nonce?: string) {
+    this.nonce = nonce;
+  }
+
+  element(el: Element) {
+    if (this.injected) return;
+    this.injected = true;
+    el.append(
+      `<script type="module" src="${CLIENT_RUNTIME_PATH}"${nonceAttr(this.nonce)}></script>`,
+      { html: true },
+    );
   }
 }
 
 class SpeculationRulesInjector {
   private injected = false;
   private rulesJson: string;
+  private nonce?: string;
 
-  constructor(preloadMounts: string[]) {
+  constructor(preloadMounts: string[], nonce?: string) {
     this.rulesJson = generateSpeculationRules(preloadMounts);
+    this.nonce = nonce;
   }
 
   element(el: Element) {
     if (this.injected) return;
     this.injected = true;
-    el.append(`<script type="speculationrules">${this.rulesJson}</script>`, {
-      html: true,
-    });
+    el.append(
+      `<script type="speculationrules"${nonceAttr(this.nonce)}>${this.rulesJson}</script>`,
+      { html: true },
+    );
   }
 }
 
+function preloadScriptPath(mountActual: string): string {
+  return mountActual === "/" ? "/__mf-preload.js" : `${mountActual}/__mf-preload.js`;
+}
+
 class PreloadScriptInjector {
   private injected = false;
   private scriptPath: string;
+  private nonce?: string;
 
-  constructor(mountActual: string) {
-    this.scriptPath = mountActual === "/" ? "/__mf-preload.js" : `${mountActual}/__mf-preload.js`;
+  constructor(mountActual: string, nonce?: string) {
+    this.scriptPath = preloadScriptPath(mountActual);
+    this.nonce = nonce;
   }
 
   element(el: Element) {
     if (this.injected) return;
     this.injected = true;
-    el.append(`<script src="${this.scriptPath}" defer></script>`, {
+    el.append(`<script src="${this.scriptPath}"${nonceAttr(this.nonce)} defer></script>`, {
       html: true,
     });
   }
 }
 
-/* ----------------------- headers / redirects / cookies ----------------------- */
+/**
+ * Rewrites asset URLs inside `<script type="importmap">`. Addresses and scope
+ * prefixes are always rewritten; specifier keys only when JS rewriting is on,
+ * since only then do module sources request the mount-prefixed specifier.
+ */
+class ImportMapRewriter {
+  private buffer = "";
+  private mount: string;
+  private assetPrefixes: string[];
+  private rewriteSpecifiers: boolean;
 
-function cloneHeadersForTransform(original: Headers): Headers {
-  const headers = new Headers(original);
-  headers.delete("content-length");
-  headers.delete("etag");
-  headers.delete("content-encoding");
-  return headers;
-}
+  constructor(mount: string, assetPrefixes: string[], rewriteSpecifiers: boolean) {
+    this.mount = normalizePath(mount);
+    this.assetPrefixes = assetPrefixes;
+    this.rewriteSpecifiers = rewriteSpecifiers;
+  }
 
-function rewriteLocation(location: string, mount: string, requestUrl: URL): string {
-  mount = normalizePath(mount);
-  try {
-    const url = new URL(location, requestUrl.origin);
-    if (url.origin === requestUrl.origin && url.pathname.startsWith("/")) {
-      url.pathname = mount === "/" ? url.pathname : mount + url.pathname;
-      return url.toString();
+  private rewriteImports(imports: unknown): unknown {
+    if (!imports || typeof imports !== "object" || Array.isArray(imports)) return imports;
+
+    const out: Record<string, unknown> = {};
+    for (const [specifier, address] of Object.entries(imports)) {
+      const key = this.rewriteSpecifiers
+        ? rewriteAssetPath(specifier, this.mount, this.assetPrefixes)
+        : specifier;
+      out[key] =
+        typeof address === "string"
+          ? rewriteAssetPath(address, this.mount, this.assetPrefixes)
+          : address;
     }
-  } catch {
-    // ignore invalid URLs
+    return out;
   }
-  return location;
-}
 
-function rewriteSetCookie(headers: Headers, mount: string) {
-  mount = normalizePath(mount);
+  private rewriteMap(json: string): string {
+    try {
+      const map = JSON.parse(json);
+      if (!map || typeof map !== "object") return json;
 
-  const getSetCookie = (headers as any).getSetCookie as undefined | (() => string[]);
-  if (!getSetCookie) return;
+      if (map.imports) map.imports = this.rewriteImports(map.imports);
+      if (map.scopes && typeof map.scopes === "object") {
+        const scopes: Record<string, unknown> = {};
+        for (const [scope, imports] of Object.entries(map.scopes)) {
+          scopes[rewriteAssetPath(scope, this.mount, this.assetPrefixes)] =
+            this.rewriteImports(imports);
+        }
+        map.scopes = scopes;
+      }
+      // Escape "<" so a mapped URL cannot close the script element
+      return JSON.stringify(map).replace(/</g, "\\u003c");
+    } catch {
+      // Leave invalid import maps for the browser to report
+      return json;
+    }
+  }
 
-  const cookies = getSetCookie.call(headers);
-  if (!cookies || cookies.length === 0) return;
+  text(chunk: Text) {
+    this.buffer += chunk.text;
+    if (!chunk.lastInTextNode) {
+      chunk.remove();
+      return;
+    }
+    chunk.replace(this.rewriteMap(this.buffer), { html: true });
+    this.buffer = "";
+  }
+}
 
-  headers.delete("Set-Cookie");
-  for (const cookie of cookies) {
-    if (/;\s*Path=\//i.test(cookie)) {
-      const newPath = mount === "/" ? "/" : `${mount}/`;
-      headers.append("Set-Cookie", cookie.replace(/;\s*Path=\//i, `; Path=${newPath}`));
-    } else {
-      headers.append("Set-Cookie", cookie);
+/** Rewrites asset string literals inside inline `<script type="module">` bodies. */
+class InlineModuleScriptRewriter {
+  private buffer = "";
+  private rewrite: (js: string) => string;
+
+  constructor(mount: string, assetPrefixes: string[]) {
+    this.rewrite = buildJsRewriter(normalizePath(mount), assetPrefixes).rewrite;
+  }
+
+  text(chunk: Text) {
+    this.buffer += chunk.text;
+    if (!chunk.lastInTextNode) {
+      chunk.remove();
+      return;
     }
+    chunk.replace(this.rewrite(this.buffer), { html: true });
+    this.buffer = "";
   }
 }
 
-/* --------------------------- preload script endpoint --------------------------- */
+/* ---------------------------- streaming rewrites ---------------------------- */
 
-function getPreloadScriptResponse(preloadMounts: string[]): Response {
-  const json = JSON.stringify(preloadMounts);
-  const js =
-    `(()=>{const routes=${json};` +
-    `const run=()=>{for(const p of routes){fetch(p,{method:"GET",credentials:"same-origin",cache:"default"}).catch(()=>{});}};` +
-    `if(document.readyState==="loading"){document.addEventListener("DOMContentLoaded",run,{once:true});}else{run();}` +
-    `})();`;
+/**
+ * Streams text through `rewrite`. `safeCut` returns the index up to which the
+ * decoded text can be rewritten without splitting a token; the remainder is
+ * carried into the next chunk.
+ */
+function createTextRewriteStream(
+  rewrite: (text: string) => string,
+  safeCut: (text: string) => number,
+): TransformStream<Uint8Array, Uint8Array> {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let carry = "";
 
-  return new Response(js, {
-    status: 200,
-    headers: {
-      "content-type": "application/javascript; charset=utf-8",
-      "cache-control": "public, max-age=300",
+  return new TransformStream({
+    transform(chunk, controller) {
+      const text = carry + decoder.decode(chunk, { stream: true });
+      const cut = safeCut(text);
+
+      carry = text.slice(cut);
+      if (cut > 0) controller.enqueue(encoder.encode(rewrite(text.slice(0, cut))));
+    },
+    flush(controller) {
+      const text = carry + decoder.decode();
+      if (text) controller.enqueue(encoder.encode(rewrite(text)));
     },
   });
 }
 
-/* --------------------------- speculation rules --------------------------- */
+/* --------------------------- fragment composition --------------------------- */
 
-function isChromiumBrowser(userAgent: string): boolean {
-  if (!userAgent) return false;
-  const ua = userAgent.toLowerCase();
-  const hasChrome = ua.includes("chrome");
-  const hasEdge = ua.includes("edg/");
-  const hasOpera = ua.includes("opr/");
-  const hasBrave = ua.includes("brave");
-  const isFirefox = ua.includes("firefox");
-  const isSafari = ua.includes("safari") && !ua.includes("chrome");
-  return (hasChrome || hasEdge || hasOpera || hasBrave) && !isFirefox && !isSafari;
-}
+type FragmentOptions = {
+  /** Milliseconds to wait for a fragment before using its fallback content */
+  timeout: number;
+  /** Maximum nesting of fragments within fragments */
+  maxDepth: number;
+};
 
-function generateSpeculationRules(preloadMounts: string[]): string {
-  const rules = {
-    prefetch: [{ urls: preloadMounts }],
-  };
-  return JSON.stringify(rules);
+const DEFAULT_FRAGMENT_OPTIONS: FragmentOptions = { timeout: 3000, maxDepth: 3 };
+
+type FragmentContext = {
+  fetch: (src: string) => Promise<Response>;
+  timeout: number;
+  /** False once the depth limit is reached: fragments render their fallback */
+  enabled: boolean;
+};
+
+async function loadFragment(
+  fetchFragment: (src: string) => Promise<Response>,
+  src: string,
+  timeout: number,
+): Promise<string | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      fetchFragment(src).then((resp) => (resp.ok ? resp.text() : null)),
+      new Promise<null>((resolve) => {
+        timer = setTimeout(() => resolve(null), timeout);
+      }),
+    ]);
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
 }
 
-/* ------------------------------ main proxy handler ------------------------------ */
+/**
+ * Starts a fetch for every `<workerstack-fragment src="/path">` as soon as it
+ * is parsed, so fragments load in parallel while the page keeps streaming.
+ * The element's children are kept as fallback content, wrapped in comment
+ * markers that `createFragmentSpliceStream` replaces with the fragment body.
+ */
+class FragmentCollector {
+  readonly token = crypto.randomUUID();
+  readonly pending = new Map<string, Promise<string | null>>();
+  private nextId = 0;
+  private ctx: FragmentContext;
 
-async function handleMountedApp(
-  request: Request,
-  upstream: Fetcher,
-  mountActual: string,
-  assetPrefixes: string[],
-  options?: {
+  constructor(ctx: FragmentContext) {
+    this.ctx = ctx;
+  }
+
+  element(el: Element) {
+    const src = el.getAttribute("src");
+    el.removeAndKeepContent();
+
+    // Only same-origin paths are routed; anything else renders its fallback
+    if (!this.ctx.enabled || !src || !src.startsWith("/") || src.startsWith("//")) return;
+
+    const timeout = Number(el.getAttribute("timeout")) || this.ctx.timeout;
+    const id = String(this.nextId++);
+    this.pending.set(id, loadFragment(this.ctx.fetch, src, timeout));
+
+    el.before(`<!--wsf:${this.token}:${id}:start-->`, { html: true });
+    el.after(`<!--wsf:${this.token}:${id}:end-->`, { html: true });
+  }
+}
+
+/** Number of bytes at the end of `bytes` that start an unfinished UTF-8 sequence */
+function incompleteUtf8Tail(bytes: Uint8Array): number {
+  for (let i = 1; i <= Math.min(3, bytes.length); i++) {
+    const byte = bytes[bytes.length - i];
+    if ((byte & 0xc0) === 0x80) continue;
+    const length = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+    return length > i ? i : 0;
+  }
+  return 0;
+}
+
+/**
+ * Replaces each marked fallback region with its fragment body, awaiting the
+ * fragment in document order. Output before a pending fragment is flushed
+ * immediately; partial markers at chunk ends are carried forward. Until the
+ * collector has marked a fragment, bytes pass through without being decoded.
+ */
+function createFragmentSpliceStream(
+  collector: FragmentCollector,
+): TransformStream<Uint8Array, Uint8Array> {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  const markerPrefix = `<!--wsf:${collector.token}:`;
+  const markerRe = new RegExp(`${escapeRegexLiteral(markerPrefix)}(\\d+):(start|end)-->`, "g");
+
+  let carry = "";
+  let fallback: string | null = null;
+  let decoding = false;
+
+  const emit = (text: string, controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (!text) return;
+    if (fallback !== null) fallback += text;
+    else controller.enqueue(encoder.encode(text));
+  };
+
+  const splice = async (text: string, controller: TransformStreamDefaultController<Uint8Array>) => {
+    let last = 0;
+    markerRe.lastIndex = 0;
+
+    for (let m = markerRe.exec(text); m; m = markerRe.exec(text)) {
+      emit(text.slice(last, m.index), controller);
+      last = markerRe.lastIndex;
+
+      if (m[2] === "start") {
+        fallback = "";
+      } else {
+        const body = await collector.pending.get(m[1]);
+        const content = body ?? fallback ?? "";
+        fallback = null;
+        emit(content, controller);
+      }
+    }
+
+    return text.slice(last);
+  };
+
+  return new TransformStream({
+    async transform(chunk, controller) {
+      // The rewriter runs the element handler before emitting its markers
+      if (!decoding && !collector.pending.size) {
+        const tail = incompleteUtf8Tail(chunk);
+        if (chunk.length > tail) controller.enqueue(chunk.subarray(0, chunk.length - tail));
+        if (!tail) return;
+        // A split character is handed to the decoder, which switches to splicing
+        decoding = true;
+        decoder.decode(chunk.subarray(chunk.length - tail), { stream: true });
+        return;
+      }
+
+      decoding = true;
+      const rest = await splice(carry + decoder.decode(chunk, { stream: true }), controller);
+
+      // Hold back a trailing "<!--wsf..." that may be completed by the next chunk
+      const lt = rest.lastIndexOf("<");
+      const tail = lt === -1 ? "" : rest.slice(lt);
+      const partial =
+        tail &&
+        !tail.includes("-->") &&
+        (markerPrefix.startsWith(tail) || tail.startsWith(markerPrefix));
+      carry = partial ? tail : "";
+      emit(partial ? rest.slice(0, lt) : rest, controller);
+    },
+    async flush(controller) {
+      emit(await splice(carry + decoder.decode(), controller), controller);
+      if (fallback) controller.enqueue(encoder.encode(fallback));
+    },
+  });
+}
+
+/* ------------------------------ CSS rewriting ------------------------------ */
+
+/** Upper bound on text held back while waiting for a statement boundary */
+const MAX_CSS_CARRY = 64 * 1024;
+
+function buildCssRewriter(mount: string, assetPrefixes: string[]): (css: string) => string {
+  const cssMountPrefix = mount === "/" ? "" : mount;
+
+  const prefixPattern = assetPrefixes
+    .map((p) => p.slice(1, -1))
+    .map((p) => p.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("|");
+  const urlRegex = new RegExp(`url\\(\\s*(['"]?)(/(?:${prefixPattern})/)`, "g");
+  const importRegex = new RegExp(`@import\\s+(['"])(/(?:${prefixPattern})/)`, "g");
+
+  return (css) =>
+    css
+      // Rewrite url() references to asset paths
+      .replace(urlRegex, `url($1${cssMountPrefix}$2`)
+      // Rewrite @import paths to asset prefixes
+      .replace(importRegex, `@import $1${cssMountPrefix}$2`);
+}
+
+/**
+ * Streams CSS through the asset rewriter. A `url(` or `@import` token never
+ * spans a `;`, `{` or `}`, so each chunk is rewritten up to its last statement
+ * boundary and the remainder is carried into the next chunk.
+ */
+function createCssRewriteStream(
+  mount: string,
+  assetPrefixes: string[],
+): TransformStream<Uint8Array, Uint8Array> {
+  return createTextRewriteStream(buildCssRewriter(mount, assetPrefixes), (text) => {
+    const boundary =
+      Math.max(text.lastIndexOf(";"), text.lastIndexOf("{"), text.lastIndexOf("}")) + 1;
+    return text.length - boundary > MAX_CSS_CARRY ? text.length : boundary;
+  });
+}
+
+/* ---------------------------- manifest rewriting ---------------------------- */
+
+function isManifest(contentType: string, pathname: string): boolean {
+  if (contentType.includes("application/manifest+json")) return true;
+  return (
+    contentType.includes("json") &&
+    (pathname.endsWith(".webmanifest") || pathname.endsWith("/manifest.json"))
+  );
+}
+
+/**
+ * Scopes a web app manifest's own URLs to the mount. Relative URLs already
+ * resolve against the mounted manifest URL and are left alone.
+ */
+function rewriteManifest(manifest: any, mount: string, requestUrl: URL): unknown {
+  if (!manifest || typeof manifest !== "object" || Array.isArray(manifest)) return manifest;
+
+  const url = (value: unknown) =>
+    typeof value === "string" ? scopeToMount(value, mount, requestUrl) : value;
+  const each = (list: unknown, fn: (item: any) => void) => {
+    if (Array.isArray(list))
+      for (const item of list) if (item && typeof item === "object") fn(item);
+  };
+  const images = (item: any) => each(item.icons, (icon) => (icon.src = url(icon.src)));
+
+  for (const field of ["start_url", "scope", "id"]) {
+    if (field in manifest) manifest[field] = url(manifest[field]);
+  }
+  images(manifest);
+  each(manifest.screenshots, (shot) => (shot.src = url(shot.src)));
+  each(manifest.shortcuts, (shortcut) => {
+    shortcut.url = url(shortcut.url);
+    images(shortcut);
+  });
+  each(manifest.file_handlers, (handler) => (handler.action = url(handler.action)));
+  each(manifest.protocol_handlers, (handler) => (handler.url = url(handler.url)));
+  if (manifest.share_target && typeof manifest.share_target === "object") {
+    manifest.share_target.action = url(manifest.share_target.action);
+  }
+
+  return manifest;
+}
+
+/* ----------------------------- JSON / XML rewriting ----------------------------- */
+
+const JSON_POINTER_PRESETS: Record<string, string[]> = {
+  hal: ["/**/_links/*/href", "/**/_links/*/*/href"],
+  jsonapi: ["/**/links/*", "/**/links/*/href"],
+};
+
+function compileJsonPointers(pointers: string[] | undefined, route: string) {
+  if (!pointers?.length) return undefined;
+  return pointers
+    .flatMap((pointer) => JSON_POINTER_PRESETS[pointer] ?? [pointer])
+    .map((pointer) => {
+      if (pointer !== "" && !pointer.startsWith("/")) {
+        throw new Error(`Invalid JSON pointer "${pointer}" for route "${route}".`);
+      }
+      return pointer
+        .split("/")
+        .slice(1)
+        .map((segment) => segment.replaceAll("~1", "/").replaceAll("~0", "~"));
+    });
+}
+
+/** Replaces the string values addressed by a parsed JSON pointer in place */
+function rewriteJsonPointer(
+  node: any,
+  segments: string[],
+  rewrite: (value: string) => string,
+): any {
+  if (!segments.length) return typeof node === "string" ? rewrite(node) : node;
+  if (!node || typeof node !== "object") return node;
+
+  const [head, ...rest] = segments;
+  if (head === "**") {
+    // Match here, then keep looking at every depth below
+    node = rewriteJsonPointer(node, rest, rewrite);
+    for (const key of Object.keys(node))
+      node[key] = rewriteJsonPointer(node[key], segments, rewrite);
+    return node;
+  }
+  const keys = head === "*" ? Object.keys(node) : Object.hasOwn(node, head) ? [head] : [];
+  for (const key of keys) node[key] = rewriteJsonPointer(node[key], rest, rewrite);
+  return node;
+}
+
+/** Sitemaps and RSS / Atom feeds; SVG and XHTML are documents, not feeds */
+function isFeedXml(contentType: string): boolean {
+  return contentType.includes("xml") && !/svg|xhtml/.test(contentType);
+}
+
+const XML_TEXT_URL_RE =
+  /(<((?:[\w-]+:)?(?:loc|link))(?:\s[^>]*)?>\s*(?:<!\[CDATA\[)?)([^<\]\s]+)(?=\s*(?:\]\]>)?\s*<\/\2>)/g;
+const XML_HREF_RE = /(<(?:[\w-]+:)?link\b[^>]*?\shref\s*=\s*)(["'])([^"']*)\2/g;
+/** Upper bound on carried XML without an opening tag; a larger carry is flushed */
+const MAX_XML_CARRY = 64 * 1024;
+
+function createXmlRewriteStream(
+  mount: string,
+  requestUrl: URL,
+): TransformStream<Uint8Array, Uint8Array> {
+  const scope = (url: string) => scopeToMount(url, mount, requestUrl);
+  return createTextRewriteStream(
+    (xml) =>
+      xml
+        .replace(XML_TEXT_URL_RE, (_, open: string, _tag, url: string) => open + scope(url))
+        .replace(XML_HREF_RE, (_, open: string, quote: string, url: string) => {
+          return `${open}${quote}${scope(url)}${quote}`;
+        }),
+    (text) => {
+      // Cut before the last opening tag so an element keeps its text and closing tag;
+      // a trailing "<" may still become "</", and CDATA belongs to its element
+      let cut = text.lastIndexOf("<");
+      while (cut !== -1 && (cut === text.length - 1 || "/!".includes(text[cut + 1]))) {
+        cut = cut === 0 ? -1 : text.lastIndexOf("<", cut - 1);
+      }
+      if (cut === -1) return text.length > MAX_XML_CARRY ? text.length : 0;
+      return text.length - cut > MAX_XML_CARRY ? text.length : cut;
+    },
+  );
+}
+
+/* ---------------------------- JavaScript rewriting ---------------------------- */
+
+function isJavaScript(contentType: string): boolean {
+  return /\b(?:java|ecma)script\b/i.test(contentType);
+}
+
+/**
+ * Rewrites string literals that start with an asset prefix, e.g.
+ * `import("/assets/chunk.js")` or `new URL("/assets/x.wasm", import.meta.url)`.
+ * `maxTokenLength` bounds the quote + prefix token used for chunk carries.
+ */
+function buildJsRewriter(
+  mount: string,
+  assetPrefixes: string[],
+): { rewrite: (js: string) => string; maxTokenLength: number } {
+  const jsMountPrefix = mount === "/" ? "" : mount;
+  const prefixPattern = assetPrefixes.map(escapeRegexLiteral).join("|");
+  const literalRegex = new RegExp(`(["'\`])(${prefixPattern})`, "g");
+
+  return {
+    rewrite: (js) => (jsMountPrefix ? js.replace(literalRegex, `$1${jsMountPrefix}$2`) : js),
+    maxTokenLength: 1 + Math.max(...assetPrefixes.map((p) => p.length)),
+  };
+}
+
+/**
+ * Streams JavaScript through the literal rewriter. An incomplete token must
+ * start with a quote in the last `maxTokenLength - 1` characters, so the carry
+ * starts at the earliest such quote.
+ */
+function createJsRewriteStream(
+  mount: string,
+  assetPrefixes: string[],
+): TransformStream<Uint8Array, Uint8Array> {
+  const { rewrite, maxTokenLength } = buildJsRewriter(mount, assetPrefixes);
+
+  return createTextRewriteStream(rewrite, (text) => {
+    const tailStart = Math.max(0, text.length - (maxTokenLength - 1));
+    const tail = text.slice(tailStart);
+    const quote = tail.search(/["'`]/);
+    return quote === -1 ? text.length : tailStart + quote;
+  });
+}
+
+/* ------------------------- content security policy ------------------------- */
+
+type CspMode = "nonce" | "hash";
+
+const CSP_HEADERS = ["content-security-policy", "content-security-policy-report-only"];
+
+type CspPolicy = Map<string, string[]>;
+
+function parseCsp(header: string): CspPolicy[] {
+  return header
+    .split(",")
+    .map((policy) => {
+      const directives: CspPolicy = new Map();
+      for (const directive of policy.split(";")) {
+        const [name, ...sources] = directive.trim().split(/\s+/);
+        // Per spec, only the first occurrence of a directive is honored
+        if (name && !directives.has(name.toLowerCase())) {
+          directives.set(name.toLowerCase(), sources);
+        }
+      }
+      return directives;
+    })
+    .filter((policy) => policy.size > 0);
+}
+
+function serializeCsp(policies: CspPolicy[]): string {
+  return policies
+    .map((policy) => [...policy].map(([name, sources]) => [name, ...sources].join(" ")).join("; "))
+    .join(", ");
+}
+
+function findCspNonce(policies: CspPolicy[]): string | undefined {
+  for (const policy of policies) {
+    for (const directive of ["script-src-elem", "script-src", "default-src"]) {
+      const source = policy.get(directive)?.find((s) => /^'nonce-[^']+'$/.test(s));
+      if (source) return source.slice(7, -1);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Allows `source` (a nonce, hash or same-origin URL) for elements of `kind`
+ * without weakening the policy. For nonces and hashes, directives that already
+ * allow any inline content via `'unsafe-inline'` are left alone, since adding
+ * one would make browsers ignore `'unsafe-inline'` and block the sub-app's own
+ * inline code. URLs are left out where `'self'` already allows them.
+ */
+function allowCspSource(policy: CspPolicy, kind: "script" | "style", source: string) {
+  const isUrl = !source.startsWith("'");
+  const allowsAnyInline = (sources: string[]) =>
+    sources.includes("'unsafe-inline'") &&
+    !sources.some((s) => /^'(?:nonce|sha256|sha384|sha512)-/.test(s));
+
+  const addTo = (sources: string[]) => {
+    if (sources.includes(source)) return sources;
+    if (isUrl ? sources.includes("'self'") : allowsAnyInline(sources)) return sources;
+    return [...sources.filter((s) => s !== "'none'"), source];
+  };
+
+  const directives = [`${kind}-src-elem`, `${kind}-src`].filter((d) => policy.has(d));
+  if (directives.length === 0) {
+    const fallback = policy.get("default-src");
+    // No fallback means inline elements of this kind are unrestricted
+    if (fallback) policy.set(`${kind}-src`, addTo(fallback));
+    return;
+  }
+
+  for (const directive of directives) {
+    policy.set(directive, addTo(policy.get(directive)!));
+  }
+}
+
+/**
+ * Allows the injected `<base href>` through `base-uri`. The directive has no
+ * fallback, so policies without it already allow any base URL.
+ */
+function allowBaseUri(policy: CspPolicy, base: string) {
+  const sources = policy.get("base-uri");
+  if (!sources || sources.includes("'self'") || sources.includes(base)) return;
+  policy.set("base-uri", [...sources.filter((s) => s !== "'none'"), base]);
+}
+
+function generateNonce(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return btoa(String.fromCharCode(...bytes));
+}
+
+async function sha256Source(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(content));
+  return `'sha256-${btoa(String.fromCharCode(...new Uint8Array(digest)))}'`;
+}
+
+/**
+ * Updates upstream CSP headers so the router's injected elements are allowed.
+ * In "nonce" mode the upstream nonce is reused (or one is generated) and
+ * returned for stamping onto the injected elements; in "hash" mode the
+ * SHA-256 of each static inline injection is allowed instead, and injected
+ * `<script src>` elements are allowed by URL. The injected `<base href>` is
+ * allowed through `base-uri` in both modes.
+ */
+async function applyCspForInjections(
+  headers: Headers,
+  mode: CspMode,
+  inline: { scripts: string[]; styles: string[] },
+  external: { scripts: string[]; base: string },
+): Promise<string | undefined> {
+  const present = CSP_HEADERS.filter((name) => headers.has(name));
+  if (present.length === 0) return undefined;
+
+  const parsed = present.map((name) => [name, parseCsp(headers.get(name)!)] as const);
+
+  let nonce: string | undefined;
+  let scriptSources: string[];
+  let styleSources: string[];
+
+  if (mode === "hash") {
+    scriptSources = [...(await Promise.all(inline.scripts.map(sha256Source))), ...external.scripts];
+    styleSources = await Promise.all(inline.styles.map(sha256Source));
+  } else {
+    nonce = findCspNonce(parsed.flatMap(([, policies]) => policies)) ?? generateNonce();
+    scriptSources = [`'nonce-${nonce}'`];
+    styleSources = inline.styles.length ? [`'nonce-${nonce}'`] : [];
+  }
+
+  for (const [name, policies] of parsed) {
+    for (const policy of policies) {
+      for (const source of scriptSources) allowCspSource(policy, "script", source);
+      for (const source of styleSources) allowCspSource(policy, "style", source);
+      allowBaseUri(policy, external.base);
+    }
+    headers.set(name, serializeCsp(policies));
+  }
+
+  return nonce;
+}
+
+/* ----------------------- headers / redirects / cookies ----------------------- */
+
+function cloneHeadersForTransform(original: Headers, mount: string): Headers {
+  const headers = new Headers(original);
+  headers.delete("content-length");
+  headers.delete("content-encoding");
+  // The body changes, so the upstream validator is replaced by a weak one
+  const etag = original.get("etag");
+  if (etag) headers.set("etag", transformedEtag(etag, mount));
+  else headers.delete("etag");
+  return headers;
+}
+
+function rewriteLocation(location: string, mount: string, requestUrl: URL): string {
+  mount = normalizePath(mount);
+  try {
+    const url = new URL(location, requestUrl.origin);
+    if (url.origin === requestUrl.origin && url.pathname.startsWith("/")) {
+      url.pathname = mount === "/" ? url.pathname : mount + url.pathname;
+      return url.toString();
+    }
+  } catch {
+    // ignore invalid URLs
+  }
+  return location;
+}
+
+/**
+ * Mount-scopes a root-relative or same-origin URL from an upstream response with
+ * the AllAttributesRewriter rules: paths already under the mount are left
+ * alone, and with `assetPrefixes` only asset paths are rewritten.
+ */
+function scopeToMount(
+  value: string,
+  mount: string,
+  requestUrl: URL,
+  assetPrefixes?: string[],
+): string {
+  const rootRelative = value.startsWith("/") && !value.startsWith("//");
+  if (mount === "/" || !(rootRelative || /^https?:\/\//i.test(value))) return value;
+
+  let url: URL;
+  try {
+    url = new URL(value, requestUrl.origin);
+  } catch {
+    return value;
+  }
+  if (url.origin !== requestUrl.origin || url.pathname.startsWith(mount + "/")) return value;
+  if (assetPrefixes && !hasAssetPrefix(url.pathname, assetPrefixes)) return value;
+
+  if (rootRelative) return mount + value;
+  url.pathname = mount + url.pathname;
+  return url.toString();
+}
+
+/**
+ * Rewrites URL-bearing response headers besides Location and Set-Cookie.
+ * `Link` targets follow the asset rules (icons are always scoped, like
+ * `<link rel="icon">`), so Early Hints Cloudflare derives from them preload
+ * mounted URLs. `Refresh`, `Content-Location` and `Service-Worker-Allowed`
+ * name the sub-app's own pages and are always scoped.
+ */
+function rewriteUrlHeaders(
+  headers: Headers,
+  mount: string,
+  assetPrefixes: string[],
+  requestUrl: URL,
+) {
+  mount = normalizePath(mount);
+  if (mount === "/") return;
+
+  const link = headers.get("link");
+  if (link) {
+    headers.set(
+      "link",
+      link.replace(/<([^>]*)>([^,]*)/g, (entry, target: string, params: string) => {
+        const rel = /;\s*rel\s*=\s*"?([^";]*)/i.exec(params)?.[1].toLowerCase() ?? "";
+        const scoped = scopeToMount(
+          target,
+          mount,
+          requestUrl,
+          rel.includes("icon") ? undefined : assetPrefixes,
+        );
+        return scoped === target ? entry : `<${scoped}>${params}`;
+      }),
+    );
+  }
+
+  const refresh = headers.get("refresh");
+  const m =
+    refresh && /^(\s*\d+(?:\.\d*)?\s*[;,]\s*(?:url\s*=\s*)?)(['"]?)(.*?)\2\s*$/i.exec(refresh);
+  if (m) {
+    const scoped = scopeToMount(m[3], mount, requestUrl);
+    if (scoped !== m[3]) headers.set("refresh", `${m[1]}${m[2]}${scoped}${m[2]}`);
+  }
+
+  for (const name of ["content-location", "service-worker-allowed"]) {
+    const value = headers.get(name);
+    if (value) headers.set(name, scopeToMount(value, mount, requestUrl));
+  }
+}
+
+function rewriteSetCookie(headers: Headers, mount: string) {
+  mount = normalizePath(mount);
+
+  const getSetCookie = (headers as any).getSetCookie as undefined | (() => string[]);
+  if (!getSetCookie) return;
+
+  const cookies = getSetCookie.call(headers);
+  if (!cookies || cookies.length === 0) return;
+
+  headers.delete("Set-Cookie");
+  for (const cookie of cookies) {
+    if (/;\s*Path=\//i.test(cookie)) {
+      const newPath = mount === "/" ? "/" : `${mount}/`;
+      headers.append("Set-Cookie", cookie.replace(/;\s*Path=\//i, `; Path=${newPath}`));
+    } else {
+      headers.append("Set-Cookie", cookie);
+    }
+  }
+}
+
+/* ------------------------------ header policies ------------------------------ */
+
+type HeaderPolicy = {
+  cors?: CompiledCors;
+  remove: string[];
+  set: [string, string][];
+  defaults: [string, string][];
+  append: [string, string][];
+};
+
+type CompiledCors = {
+  allowOrigin: (origin: string) => boolean;
+  anyOrigin: boolean;
+  methods: string;
+  headers?: string;
+  exposeHeaders?: string;
+  credentials: boolean;
+  maxAge?: number;
+};
+
+const DEFAULT_SECURITY_HEADERS: Required<Omit<SecurityHeadersConfig, "permissionsPolicy">> = {
+  hsts: "max-age=31536000; includeSubDomains",
+  frameOptions: "SAMEORIGIN",
+  referrerPolicy: "strict-origin-when-cross-origin",
+  contentTypeOptions: true,
+};
+
+function compileOriginMatcher(origins: string[]): (origin: string) => boolean {
+  const exact = new Set<string>();
+  const patterns: RegExp[] = [];
+  for (const origin of origins) {
+    if (origin.includes("*")) {
+      patterns.push(
+        new RegExp(
+          `^${origin.split("*").map(escapeRegexLiteral).join("[^./]+(?:\\.[^./]+)*")}$`,
+          "i",
+        ),
+      );
+    } else {
+      exact.add(origin.toLowerCase());
+    }
+  }
+  return (origin) => exact.has(origin.toLowerCase()) || patterns.some((re) => re.test(origin));
+}
+
+function compileCors(cors: CorsConfig, route: string): CompiledCors {
+  if (cors.origins !== "*" && !Array.isArray(cors.origins)) {
+    throw new Error(`Invalid cors.origins for route "${route}": expected "*" or a list.`);
+  }
+  const anyOrigin = cors.origins === "*";
+  return {
+    allowOrigin: anyOrigin ? () => true : compileOriginMatcher(cors.origins as string[]),
+    anyOrigin,
+    methods: (cors.methods ?? ["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE"]).join(", "),
+    headers: cors.headers?.join(", "),
+    exposeHeaders: cors.exposeHeaders?.join(", "),
+    credentials: !!cors.credentials,
+    maxAge: cors.maxAge,
+  };
+}
+
+function compileHeaderPolicy(
+  r: RouteConfig,
+  globals: Partial<RoutesConfig>,
+): HeaderPolicy | undefined {
+  const cors = r.cors ?? globals.cors;
+  const security = r.security ?? globals.security;
+  const rules = r.headers ?? globals.headers;
+  if (!cors && !security && !rules) return undefined;
+
+  const set: [string, string][] = [];
+  if (security) {
+    const config = { ...DEFAULT_SECURITY_HEADERS, ...(security === true ? {} : security) };
+    if (config.hsts) {
+      set.push([
+        "Strict-Transport-Security",
+        config.hsts === true ? DEFAULT_SECURITY_HEADERS.hsts : config.hsts,
+      ]);
+    }
+    if (config.frameOptions) set.push(["X-Frame-Options", config.frameOptions]);
+    if (config.referrerPolicy) set.push(["Referrer-Policy", config.referrerPolicy]);
+    if (config.contentTypeOptions) set.push(["X-Content-Type-Options", "nosniff"]);
+    if (config.permissionsPolicy) set.push(["Permissions-Policy", config.permissionsPolicy]);
+  }
+
+  return {
+    cors: cors ? compileCors(cors, r.path) : undefined,
+    remove: rules?.remove ?? [],
+    set: [...set, ...Object.entries(rules?.set ?? {})],
+    defaults: Object.entries(rules?.default ?? {}),
+    append: Object.entries(rules?.append ?? {}),
+  };
+}
+
+function isPreflight(request: Request): boolean {
+  return (
+    request.method === "OPTIONS" &&
+    request.headers.has("origin") &&
+    request.headers.has("access-control-request-method")
+  );
+}
+
+/** Answers a CORS preflight; disallowed origins get no allow headers */
+function preflightResponse(cors: CompiledCors, request: Request): Response {
+  const headers = new Headers({ Vary: "Origin" });
+  const origin = request.headers.get("origin")!;
+
+  if (cors.allowOrigin(origin)) {
+    headers.set("Access-Control-Allow-Methods", cors.methods);
+    const requested = request.headers.get("access-control-request-headers");
+    const allowHeaders = cors.headers ?? requested;
+    if (allowHeaders) headers.set("Access-Control-Allow-Headers", allowHeaders);
+    if (cors.maxAge !== undefined) headers.set("Access-Control-Max-Age", String(cors.maxAge));
+  }
+
+  return new Response(null, { status: 204, headers });
+}
+
+function applyCors(headers: Headers, cors: CompiledCors, origin: string | null) {
+  headers.append("Vary", "Origin");
+  if (!origin || !cors.allowOrigin(origin)) return;
+
+  // "*" cannot be combined with credentials, so the origin is echoed instead
+  headers.set("Access-Control-Allow-Origin", cors.anyOrigin && !cors.credentials ? "*" : origin);
+  if (cors.credentials) headers.set("Access-Control-Allow-Credentials", "true");
+  if (cors.exposeHeaders) headers.set("Access-Control-Expose-Headers", cors.exposeHeaders);
+}
+
+/**
+ * Applies a route's declarative header policy to the final response, after
+ * rewriting. Rules run remove → set → default → append, then CORS.
+ */
+function applyHeaderPolicy(response: Response, policy: HeaderPolicy | undefined, request: Request) {
+  if (!policy) return response;
+
+  const { headers } = response;
+  for (const name of policy.remove) headers.delete(name);
+  for (const [name, value] of policy.set) headers.set(name, value);
+  for (const [name, value] of policy.defaults) if (!headers.has(name)) headers.set(name, value);
+  for (const [name, value] of policy.append) headers.append(name, value);
+  if (policy.cors) applyCors(headers, policy.cors, request.headers.get("origin"));
+
+  return response;
+}
+
+/* --------------------------- preload script endpoint --------------------------- */
+
+function getPreloadScriptResponse(preloadMounts: string[]): Response {
+  const json = JSON.stringify(preloadMounts);
+  const js =
+    `(()=>{const routes=${json};` +
+    `const run=()=>{for(const p of routes){fetch(p,{method:"GET",credentials:"same-origin",cache:"default"}).catch(()=>{});}};` +
+    `if(document.readyState==="loading"){document.addEventListener("DOMContentLoaded",run,{once:true});}else{run();}` +
+    `})();`;
+
+  return new Response(js, {
+    status: 200,
+    headers: {
+      "content-type": "application/javascript; charset=utf-8",
+      "cache-control": "public, max-age=300",
+    },
+  });
+}
+
+/* --------------------------- speculation rules --------------------------- */
+
+function isChromiumBrowser(userAgent: string): boolean {
+  if (!userAgent) return false;
+  const ua = userAgent.toLowerCase();
+  const hasChrome = ua.includes("chrome");
+  const hasEdge = ua.includes("edg/");
+  const hasOpera = ua.includes("opr/");
+  const hasBrave = ua.includes("brave");
+  const isFirefox = ua.includes("firefox");
+  const isSafari = ua.includes("safari") && !ua.includes("chrome");
+  return (hasChrome || hasEdge || hasOpera || hasBrave) && !isFirefox && !isSafari;
+}
+
+function generateSpeculationRules(preloadMounts: string[]): string {
+  const rules = {
+    prefetch: [{ urls: preloadMounts }],
+  };
+  return JSON.stringify(rules);
+}
+
+/* ----------------------------- redirects / rewrites ----------------------------- */
+
+type CompiledPathRule = {
+  source: string;
+  re: RegExp;
+  paramNames: string[];
+  destination: string;
+  status: number;
+};
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * Compiles a redirect or rewrite source. Uses the route expression syntax
+ * (`:name`, `:name(regex)`, trailing `:name*` / `:name+`), but matches the
+ * whole path rather than a mount prefix.
+ */
+function compileExactPathExpr(exprRaw: string): { re: RegExp; paramNames: string[] } {
+  const parts = normalizePath(exprRaw.trim()).split("/").filter(Boolean);
+  const paramNames: string[] = [];
+  const last = parts[parts.length - 1] ?? "";
+  const mStarPlus = last.match(/^:([A-Za-z0-9_]+)([*+])$/);
+  if (mStarPlus) parts.pop();
+
+  let pattern = parts.map((part) => `/${segmentToRegex(part, paramNames)}`).join("");
+  if (mStarPlus) {
+    const [, name, op] = mStarPlus;
+    if (paramNames.includes(name)) throw new Error(`Duplicate param ":${name}"`);
+    const group = `?<p${paramNames.length}>`;
+    paramNames.push(name);
+    pattern += op === "*" ? `(?:/(${group}.*))?` : `/(${group}.+)`;
+  }
+
+  return { re: new RegExp(`^${pattern || "/"}$`), paramNames };
+}
+
+function compilePathRules(
+  rules: (RedirectConfig | RewriteConfig)[] | undefined,
+  kind: "redirect" | "rewrite",
+): CompiledPathRule[] {
+  return (rules ?? []).map((rule) => {
+    if (!rule?.source || !rule.destination) {
+      throw new Error(`Invalid ${kind}: ${JSON.stringify(rule)}`);
+    }
+    const status = kind === "redirect" ? ((rule as RedirectConfig).status ?? 302) : 200;
+    if (kind === "redirect" && !REDIRECT_STATUSES.has(status)) {
+      throw new Error(`Invalid redirect status ${status} for "${rule.source}".`);
+    }
+    if (kind === "rewrite" && !rule.destination.startsWith("/")) {
+      throw new Error(`Rewrite destination "${rule.destination}" must be a path.`);
+    }
+    return {
+      source: rule.source,
+      ...compileExactPathExpr(rule.source),
+      destination: rule.destination,
+      status,
+    };
+  });
+}
+
+/** Replaces `:name` tokens in a destination with captured (re-encoded) params */
+function substituteParams(destination: string, params: Record<string, string>): string {
+  return destination.replace(/:([A-Za-z0-9_]+)/g, (token, name: string) =>
+    name in params ? encodeURI(params[name]).replace(/[?#]/g, encodeURIComponent) : token,
+  );
+}
+
+function applyPathRule(
+  rules: CompiledPathRule[],
+  url: URL,
+): { rule: CompiledPathRule; target: URL } | null {
+  const pathname = normalizePath(url.pathname);
+  for (const rule of rules) {
+    const m = rule.re.exec(pathname);
+    if (!m) continue;
+
+    // An empty `:name*` splat substitutes as an empty string
+    const params = Object.fromEntries(rule.paramNames.map((name) => [name, ""]));
+    Object.assign(params, extractParams(m, rule.paramNames));
+    let destination = substituteParams(rule.destination, params);
+    const isPath = rule.destination.startsWith("/");
+    // A splat like `//evil.com` must not turn a path into a protocol-relative URL
+    if (isPath) destination = destination.replace(/^\/{2,}/, "/");
+    const target = new URL(destination, url);
+    if (isPath && target.origin !== url.origin) continue;
+    // Keep the client's query unless the destination sets its own
+    if (!target.search) target.search = url.search;
+    return { rule, target };
+  }
+  return null;
+}
+
+function trailingSlashRedirect(policy: CompiledRouter["trailingSlash"], url: URL): Response | null {
+  const { pathname } = url;
+  if (policy === "preserve" || pathname === "/") return null;
+
+  let next: string | null = null;
+  if (policy === "never" && pathname.endsWith("/")) {
+    next = pathname.replace(/\/+$/, "") || "/";
+  } else if (policy === "always" && !pathname.endsWith("/")) {
+    // Paths that look like files keep their form
+    const last = pathname.slice(pathname.lastIndexOf("/") + 1);
+    if (!last.includes(".")) next = `${pathname}/`;
+  }
+  if (!next) return null;
+
+  const target = new URL(url);
+  target.pathname = next;
+  return Response.redirect(target.toString(), 308);
+}
+
+/* ------------------------------ error handling ------------------------------ */
+
+const REQUEST_ID_HEADER = "x-request-id";
+
+/** Reuses the Cloudflare ray id so router errors line up with edge logs */
+function createRequestId(request: Request): string {
+  return request.headers.get("cf-ray") || crypto.randomUUID();
+}
+
+function prefersJson(request: Request): boolean {
+  const accept = request.headers.get("accept") || "";
+  return /\bjson\b/.test(accept) && !accept.includes("text/html");
+}
+
+const ERROR_MESSAGES: Record<number, string> = {
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not found",
+  429: "Too many requests",
+  500: "Internal server error",
+  502: "Bad gateway",
+  503: "Service unavailable",
+  504: "Gateway timeout",
+};
+
+function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+}
+
+function defaultErrorResponse(status: number, requestId: string, json: boolean): Response {
+  const message = ERROR_MESSAGES[status] ?? "Error";
+  const headers = new Headers({ "cache-control": "no-store", [REQUEST_ID_HEADER]: requestId });
+
+  if (json) {
+    headers.set("content-type", "application/json; charset=utf-8");
+    return new Response(JSON.stringify({ error: { status, message, requestId } }), {
+      status,
+      headers,
+    });
+  }
+
+  headers.set("content-type", "text/html; charset=utf-8");
+  return new Response(
+    `<!doctype html><title>${status} ${message}</title><h1>${message}</h1><p>Request ID: <code>${escapeHtml(requestId)}</code></p>`,
+    { status, headers },
+  );
+}
+
+/** Error page requests, whose own failures fall back to the built-in page */
+const errorPageRequests = new WeakSet<Request>();
+
+/**
+ * Answers a router-level failure. HTML clients get the configured error page,
+ * dispatched through the route table like any request (so the page route's
+ * auth, rate limit and timeout apply), e.g. `/errors/{status}.html` from the
+ * `_root` assets worker, with the error status. JSON clients and failed page
+ * loads get the stable `{ error: { status, message, requestId } }` envelope.
+ */
+async function renderError(
+  request: Request,
+  router: CompiledRouter,
+  route: CompiledRoute | undefined,
+  status: number,
+  requestId: string,
+): Promise<Response> {
+  const json = prefersJson(request);
+  const page = route?.errorPage ?? router.errorPage;
+
+  if (page && !json && !errorPageRequests.has(request)) {
+    const pageUrl = new URL(page.replaceAll("{status}", String(status)), request.url);
+    const pageRequest = new Request(pageUrl, { headers: { accept: "text/html" } });
+    errorPageRequests.add(pageRequest);
+    const match = matchRoute(router, pageUrl);
+    try {
+      const resp = match
+        ? (await dispatch(pageRequest, pageUrl, router, [match], undefined, requestId)).response
+        : null;
+      if (resp?.ok) {
+        const headers = new Headers(resp.headers);
+        headers.set("cache-control", "no-store");
+        headers.set(REQUEST_ID_HEADER, requestId);
+        return new Response(request.method === "HEAD" ? null : resp.body, { status, headers });
+      }
+      await resp?.body?.cancel();
+    } catch {
+      // Fall back to the built-in page
+    }
+  }
+
+  return defaultErrorResponse(status, requestId, json);
+}
+
+/** Resolves to null when the upstream does not answer within `timeout` ms */
+async function withTimeout<T>(promise: Promise<T>, timeout?: number): Promise<T | null> {
+  if (!timeout) return promise;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<null>((resolve) => {
+        timer = setTimeout(() => resolve(null), timeout);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/* --------------------------------- tracing --------------------------------- */
+
+const TRACEPARENT_HEADER = "traceparent";
+const TRACING_ENV = "WORKERSTACK_TRACING";
+/** Inbound request ids are only propagated when they look like ids */
+const REQUEST_ID_RE = /^[\w.:-]{1,128}$/;
+const TRACEPARENT_RE = /^00-([0-9a-f]{32})-[0-9a-f]{16}-([0-9a-f]{2})$/;
+
+type TracePhase = "route" | "upstream" | "rewrite";
+
+type Trace = {
+  /** Only set when tracing is enabled */
+  traceparent?: string;
+  start: number;
+  /** Milliseconds per phase, summed across fallthrough attempts */
+  phases: Partial<Record<TracePhase, number>>;
+  /** The route that produced the response */
+  served?: { route: string; mount: string; binding: string; variant?: string };
+  /** Which rewriter handled the served response */
+  transform?: "html" | "css" | "js" | "manifest" | "json" | "xml";
+  /** How cross-mount preloading was injected into HTML */
+  injection?: "speculation" | "preload";
+};
+
+function compileTracing(
+  config: boolean | TracingConfig | undefined,
+  envObj: typeof env,
+): Required<TracingConfig> | undefined {
+  if (!(envFlag(envObj, TRACING_ENV) ?? !!config)) return undefined;
+
+  const options = typeof config === "object" ? config : {};
+  return { serverTiming: options.serverTiming ?? true, logs: options.logs ?? true };
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (b) =>
+    b.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+/** Continues the caller's trace with a new span for the router, or starts one */
+function childTraceparent(header: string | null): string {
+  const m = header?.trim().toLowerCase().match(TRACEPARENT_RE);
+  const valid = m && !/^0+$/.test(m[1]);
+  return `00-${valid ? m[1] : randomHex(16)}-${randomHex(8)}-${valid ? m[2] : "01"}`;
+}
+
+function addPhase(trace: Trace | undefined, phase: TracePhase, ms: number) {
+  if (trace) trace.phases[phase] = (trace.phases[phase] ?? 0) + Math.max(0, ms);
+}
+
+function roundMs(ms: number): number {
+  return Math.round(ms * 10) / 10;
+}
+
+/**
+ * Routes a request while measuring it for tracing and analytics. Phases are
+ * measured with `performance.now()`, which in Workers only advances across
+ * I/O, so CPU-only phases may read 0.
+ */
+async function observedRequest(request: Request, router: CompiledRouter): Promise<Response> {
+  const { tracing, analytics } = router;
+  const trace: Trace = { start: performance.now(), phases: {} };
+  let requestId = createRequestId(request);
+
+  if (tracing) {
+    trace.traceparent = childTraceparent(request.headers.get(TRACEPARENT_HEADER));
+    const inbound = request.headers.get(REQUEST_ID_HEADER);
+    if (inbound && REQUEST_ID_RE.test(inbound)) requestId = inbound;
+
+    // Upstream and fragment requests copy their headers from this one
+    request = new Request(request);
+    request.headers.set(TRACEPARENT_HEADER, trace.traceparent);
+  }
+
+  let response = await routeRequest(request, router, 0, requestId, trace);
+  const duration = performance.now() - trace.start;
+
+  if (analytics) writeMetrics(analytics, request, response, trace, duration);
+  if (tracing) response = finishTrace(tracing, request, response, trace, requestId, duration);
+  return response;
+}
+
+function finishTrace(
+  tracing: Required<TracingConfig>,
+  request: Request,
+  response: Response,
+  trace: Trace,
+  requestId: string,
+  duration: number,
+): Response {
+  const timing = Object.entries(trace.phases)
+    .map(([phase, ms]) => `${phase};dur=${roundMs(ms)}`)
+    .join(", ");
+  try {
+    if (tracing.serverTiming && timing) response.headers.append("server-timing", timing);
+    if (!response.headers.has(REQUEST_ID_HEADER)) {
+      response.headers.set(REQUEST_ID_HEADER, requestId);
+    }
+  } catch {
+    // Immutable headers, e.g. from Response.redirect
+    response = new Response(response.body, response);
+    if (tracing.serverTiming && timing) response.headers.append("server-timing", timing);
+    response.headers.set(REQUEST_ID_HEADER, requestId);
+  }
+
+  if (tracing.logs) {
+    const url = new URL(request.url);
+    console.log(
+      JSON.stringify({
+        message: "workerstack request",
+        requestId,
+        traceId: trace.traceparent?.slice(3, 35),
+        method: request.method,
+        host: url.hostname,
+        path: url.pathname,
+        route: trace.served?.route ?? null,
+        mount: trace.served?.mount ?? null,
+        binding: trace.served?.binding ?? null,
+        variant: trace.served?.variant,
+        status: response.status,
+        duration: roundMs(duration),
+        phases: Object.fromEntries(
+          Object.entries(trace.phases).map(([phase, ms]) => [phase, roundMs(ms)]),
+        ),
+      }),
+    );
+  }
+
+  return response;
+}
+
+/* -------------------------------- analytics -------------------------------- */
+
+type AnalyticsConfig = {
+  /** Analytics Engine dataset binding */
+  binding: string;
+  /** Dataset name, only read by compile.ts when it adds the binding */
+  dataset?: string;
+};
+
+function compileAnalytics(
+  config: AnalyticsConfig | undefined,
+  envObj: typeof env,
+): AnalyticsEngineDataset | undefined {
+  if (!config) return undefined;
+  const dataset = (envObj as any)[config.binding];
+  if (!dataset || typeof dataset.writeDataPoint !== "function") {
+    throw new Error(`Analytics binding "${config.binding}" not found or is not a dataset.`);
+  }
+  return dataset as AnalyticsEngineDataset;
+}
+
+/**
+ * One data point per request, indexed (and therefore sampled) by route:
+ * blobs  route, binding, status class, method, host, variant, transform, injection
+ * doubles status, latency, upstream latency
+ */
+function writeMetrics(
+  dataset: AnalyticsEngineDataset,
+  request: Request,
+  response: Response,
+  trace: Trace,
+  duration: number,
+) {
+  const route = trace.served?.route ?? "";
+  try {
+    dataset.writeDataPoint({
+      indexes: [route],
+      blobs: [
+        route,
+        trace.served?.binding ?? "",
+        `${Math.floor(response.status / 100)}xx`,
+        request.method,
+        new URL(request.url).hostname,
+        trace.served?.variant ?? "",
+        trace.transform ?? "",
+        trace.injection ?? "",
+      ],
+      doubles: [response.status, roundMs(duration), roundMs(trace.phases.upstream ?? 0)],
+    });
+  } catch {
+    // Metrics never fail a request
+  }
+}
+
+/* ------------------------------ authentication ------------------------------ */
+
+const IDENTITY_HEADER = "x-workerstack-identity";
+const DEFAULT_IDENTITY_SECRET = "WORKERSTACK_IDENTITY_SECRET";
+/** Forwarded identities only need to survive the hop to the sub-app */
+const IDENTITY_TTL = 60;
+const JWKS_TTL = 10 * 60 * 1000;
+const CLOCK_SKEW = 60;
+
+export type Identity = {
+  sub: string;
+  email?: string;
+  name?: string;
+  method: AuthConfig["type"];
+  /** Expression of the route the identity was verified for */
+  route: string;
+  iat: number;
+  exp: number;
+};
+
+type CompiledAuth = {
+  config: AuthConfig;
+  issuer?: string;
+  audience?: string;
+  jwksUrl?: string;
+  hmacKey?: Promise<CryptoKey>;
+  credentials?: Promise<Uint8Array[]>;
+};
+
+type AuthResult = { identity: Omit<Identity, "route"> } | { status: 401 | 403 };
+
+const encoder = new TextEncoder();
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(input: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(input.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+}
+
+function importHmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+async function sha256Bytes(input: string): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", encoder.encode(input)));
+}
+
+function readSecret(envObj: typeof env, name: string, route: string): string {
+  const value = (envObj as any)[name];
+  if (typeof value !== "string" || !value) {
+    throw new Error(`Secret "${name}" required by route "${route}" is not set.`);
+  }
+  return value;
+}
+
+function compileAuth(r: RouteConfig, envObj: typeof env): CompiledAuth | undefined {
+  const config = r.auth;
+  if (!config) return undefined;
+
+  switch (config.type) {
+    case "jwt":
+      if (!config.jwksUrl && !config.secret) {
+        throw new Error(`JWT auth on route "${r.path}" needs a jwksUrl or secret.`);
+      }
+      return {
+        config,
+        issuer: config.issuer,
+        audience: config.audience,
+        jwksUrl: config.jwksUrl,
+        hmacKey: config.secret
+          ? importHmacKey(readSecret(envObj, config.secret, r.path))
+          : undefined,
+      };
+    case "access": {
+      if (!config.team || !config.audience) {
+        throw new Error(`Access auth on route "${r.path}" needs a team and audience.`);
+      }
+      const issuer = `https://${config.team}.cloudflareaccess.com`;
+      return {
+        config,
+        issuer,
+        audience: config.audience,
+        jwksUrl: `${issuer}/cdn-cgi/access/certs`,
+      };
+    }
+    case "basic": {
+      if (!config.credentials) {
+        throw new Error(`Basic auth on route "${r.path}" needs a credentials secret.`);
+      }
+      const pairs = readSecret(envObj, config.credentials, r.path)
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean);
+      return { config, credentials: Promise.all(pairs.map(sha256Bytes)) };
+    }
+    default:
+      throw new Error(`Invalid auth type "${String((config as any).type)}" for route "${r.path}".`);
+  }
+}
+
+const jwksCache = new Map<string, { keys: JsonWebKey[]; fetchedAt: number }>();
+
+async function getJwks(url: string, refresh: boolean): Promise<JsonWebKey[]> {
+  const cached = jwksCache.get(url);
+  const now = Date.now();
+  // A refresh for an unknown `kid` is throttled so bad tokens cannot hammer the endpoint
+  if (cached && now - cached.fetchedAt < (refresh ? CLOCK_SKEW * 1000 : JWKS_TTL)) {
+    return cached.keys;
+  }
+
+  const resp = await fetch(url);
+  if (!resp.ok) throw new Error(`Failed to fetch JWKS from ${url}: ${resp.status}`);
+  const { keys } = (await resp.json()) as { keys?: JsonWebKey[] };
+  jwksCache.set(url, { keys: keys ?? [], fetchedAt: now });
+  return keys ?? [];
+}
+
+const JWT_ALGORITHMS: Record<
+  string,
+  {
+    kty: string;
+    import: RsaHashedImportParams | EcKeyImportParams;
+    verify: AlgorithmIdentifier | EcdsaParams;
+  }
+> = {
+  RS256: {
+    kty: "RSA",
+    import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    verify: "RSASSA-PKCS1-v1_5",
+  },
+  ES256: {
+    kty: "EC",
+    import: { name: "ECDSA", namedCurve: "P-256" },
+    verify: { name: "ECDSA", hash: "SHA-256" },
+  },
+};
+
+/**
+ * Verifies an HS256, RS256 or ES256 token and its time, issuer and audience
+ * claims. Tokens must expire; `nbf` is honoured when present.
+ */
+async function verifyJwt(
+  token: string,
+  auth: CompiledAuth,
+): Promise<Record<string, unknown> | null> {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+
+  let header: { alg?: string; kid?: string };
+  let claims: Record<string, any>;
+  let signature: Uint8Array<ArrayBuffer>;
+  try {
+    header = JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[0])));
+    claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[1])));
+    signature = base64UrlDecode(parts[2]);
+  } catch {
+    return null;
+  }
+
+  const data = encoder.encode(`${parts[0]}.${parts[1]}`);
+  let valid = false;
+
+  if (header.alg === "HS256" && auth.hmacKey) {
+    valid = await crypto.subtle.verify("HMAC", await auth.hmacKey, signature, data);
+  } else if (header.alg && JWT_ALGORITHMS[header.alg] && auth.jwksUrl) {
+    const alg = JWT_ALGORITHMS[header.alg];
+    // Only signing keys of the header's type and algorithm are candidates
+    const findKeys = (keys: JsonWebKey[]) =>
+      keys.filter(
+        (k: JsonWebKey & { kid?: string }) =>
+          (!header.kid || k.kid === header.kid) &&
+          k.kty === alg.kty &&
+          (!k.alg || k.alg === header.alg) &&
+          (!k.use || k.use === "sig"),
+      );
+
+    let candidates = findKeys(await getJwks(auth.jwksUrl, false));
+    if (!candidates.length) candidates = findKeys(await getJwks(auth.jwksUrl, true));
+
+    for (const jwk of candidates) {
+      try {
+        const key = await crypto.subtle.importKey("jwk", jwk, alg.import, false, ["verify"]);
+        valid = await crypto.subtle.verify(alg.verify, key, signature, data);
+      } catch {
+        valid = false;
+      }
+      if (valid) break;
+    }
+  }
+  if (!valid) return null;
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== "number" || now > claims.exp + CLOCK_SKEW) return null;
+  if (
+    claims.nbf !== undefined &&
+    (typeof claims.nbf !== "number" || now < claims.nbf - CLOCK_SKEW)
+  ) {
+    return null;
+  }
+  if (auth.issuer && claims.iss !== auth.issuer) return null;
+  if (auth.audience) {
+    const aud = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!aud.includes(auth.audience)) return null;
+  }
+
+  return claims;
+}
+
+function isAllowed(allow: string[] | undefined, email: string | undefined): boolean {
+  if (!allow) return true;
+  if (!email) return false;
+
+  const normalized = email.toLowerCase();
+  return allow.some((entry) => {
+    const rule = entry.toLowerCase();
+    return rule.startsWith("@") ? normalized.endsWith(rule) : normalized === rule;
+  });
+}
+
+function bearerToken(request: Request): string | undefined {
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get("authorization") || "");
+  return match?.[1];
+}
+
+async function authenticate(auth: CompiledAuth, request: Request): Promise<AuthResult> {
+  const now = Math.floor(Date.now() / 1000);
+  const { config } = auth;
+
+  if (config.type === "basic") {
+    const match = /^Basic\s+(\S+)$/i.exec(request.headers.get("authorization") || "");
+    let decoded: string | undefined;
+    try {
+      decoded = match ? atob(match[1]) : undefined;
+    } catch {
+      // Malformed credentials are treated as missing
+    }
+    if (!decoded) return { status: 401 };
+
+    const provided = await sha256Bytes(decoded);
+    // Compare digests in constant time so response timing reveals nothing
+    let found = false;
+    for (const expected of await auth.credentials!) {
+      let diff = 0;
+      for (let i = 0; i < expected.length; i++) diff |= expected[i] ^ provided[i];
+      if (diff === 0) found = true;
+    }
+    if (!found) return { status: 401 };
+
+    return {
+      identity: {
+        sub: decoded.slice(0, decoded.indexOf(":")),
+        method: "basic",
+        iat: now,
+        exp: now + IDENTITY_TTL,
+      },
+    };
+  }
+
+  const token =
+    config.type === "access"
+      ? (request.headers.get("cf-access-jwt-assertion") ?? readCookie(request, "CF_Authorization"))
+      : (bearerToken(request) ?? (config.cookie ? readCookie(request, config.cookie) : undefined));
+  if (!token) return { status: 401 };
+
+  const claims = await verifyJwt(token, auth);
+  if (!claims || typeof claims.sub !== "string") return { status: 401 };
+
+  const email = typeof claims.email === "string" ? claims.email : undefined;
+  if (!isAllowed(config.allow, email)) return { status: 403 };
+
+  return {
+    identity: {
+      sub: claims.sub,
+      email,
+      name: typeof claims.name === "string" ? claims.name : undefined,
+      method: config.type,
+      iat: now,
+      exp: now + IDENTITY_TTL,
+    },
+  };
+}
+
+async function signIdentity(
+  identity: Omit<Identity, "route">,
+  route: string,
+  key: CryptoKey,
+): Promise<string> {
+  const payload = base64UrlEncode(encoder.encode(JSON.stringify({ ...identity, route })));
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(payload));
+  return `${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Reads the identity the router verified for an authenticated route. The
+ * header is signed with the shared identity secret, so sub-apps reached any
+ * other way (e.g. a public workers.dev URL) cannot be handed a forged identity.
+ * It is also bound to the route it was verified for: pass the sub-app's route
+ * expression so an identity minted for another mount sharing the secret is
+ * refused. By default the route the router forwarded to is used.
+ *
+ * @example
+ * const identity = await getIdentity(request, env.WORKERSTACK_IDENTITY_SECRET, "/app");
+ * identity?.email; // "ada@example.com"
+ */
+export async function getIdentity(
+  request: Request,
+  secret: string,
+  route = request.headers.get(ROUTE_HEADER),
+): Promise<Identity | null> {
+  const [payload, signature] = (request.headers.get(IDENTITY_HEADER) || "").split(".");
+  if (!payload || !signature || !route) return null;
+
+  try {
+    const key = await importHmacKey(secret);
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      key,
+      base64UrlDecode(signature),
+      encoder.encode(payload),
+    );
+    if (!valid) return null;
+
+    const identity = JSON.parse(new TextDecoder().decode(base64UrlDecode(payload))) as Identity;
+    if (identity.route !== route) return null;
+    return identity.exp >= Math.floor(Date.now() / 1000) ? identity : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Answers a request that failed its route's auth policy. Page loads on routes
+ * with a login mount are redirected there with the original URL in
+ * `redirect`; Basic auth challenges the browser; everything else gets the
+ * 401 / 403 error response.
+ */
+async function denyRequest(
+  request: Request,
+  url: URL,
+  router: CompiledRouter,
+  route: CompiledRoute,
+  status: 401 | 403,
+  requestId: string,
+): Promise<Response> {
+  const { config } = route.auth!;
+  const isPageLoad =
+    (request.method === "GET" || request.method === "HEAD") &&
+    (request.headers.get("accept") || "").includes("text/html");
+
+  if (status === 401 && config.login && isPageLoad) {
+    const target = `${config.login.path ?? "/"}?redirect=${encodeURIComponent(url.pathname + url.search)}`;
+    return new Response(null, {
+      status: 302,
+      headers: {
+        location: rewriteLocation(target, config.login.mount, url),
+        [REQUEST_ID_HEADER]: requestId,
+      },
+    });
+  }
+
+  const response = await renderError(request, router, route, status, requestId);
+  if (status === 401 && config.type === "basic") {
+    response.headers.set(
+      "WWW-Authenticate",
+      `Basic realm="${(config.realm ?? "workerstack").replace(/"/g, "")}", charset="UTF-8"`,
+    );
+  }
+  return response;
+}
+
+/* ------------------------------- rate limiting ------------------------------- */
+
+type RateLimitResult = { allowed: boolean; retryAfter: number };
+
+type CompiledRateLimit = {
+  /** Env binding name; a request is counted once per limiter across fallthrough */
+  binding: string;
+  keyOf: (request: Request) => string;
+  check: (key: string) => Promise<RateLimitResult>;
+};
+
+/**
+ * Fixed-window request counter, one instance per rate limit key. Export it
+ * from the router entry and bind its namespace to use `"durableObject"` limits.
+ */
+export class RateLimiter extends DurableObject {
+  async hit(limit: number, period: number): Promise<RateLimitResult> {
+    const now = Date.now();
+    let window = await this.ctx.storage.get<{ start: number; count: number }>("window");
+    if (!window || now >= window.start + period * 1000) window = { start: now, count: 0 };
+
+    window.count++;
+    await this.ctx.storage.put("window", window);
+
+    return {
+      allowed: window.count <= limit,
+      retryAfter: Math.max(1, Math.ceil((window.start + period * 1000 - now) / 1000)),
+    };
+  }
+}
+
+function compileRateLimitKey(key: string, route: string): (request: Request) => string {
+  if (key === "ip") return (request) => request.headers.get("cf-connecting-ip") ?? "unknown";
+
+  const [source, name] = [key.slice(0, key.indexOf(":")), key.slice(key.indexOf(":") + 1)];
+  if (source === "header" && name) return (request) => request.headers.get(name) ?? "";
+  if (source === "cookie" && name) return (request) => readCookie(request, name) ?? "";
+
+  throw new Error(`Invalid rateLimit key "${key}" for route "${route}".`);
+}
+
+function compileRateLimit(r: RouteConfig, envObj: typeof env): CompiledRateLimit | undefined {
+  const config = r.rateLimit;
+  if (!config) return undefined;
+
+  const binding = (envObj as any)[config.binding];
+  const period = config.period ?? 60;
+  // Routes sharing a binding still count separately
+  const scope = `${r.host ?? ""}${normalizePath(r.path)}`;
+  const keyOf = compileRateLimitKey(config.key ?? "ip", r.path);
+  const scopedKeyOf = (request: Request) => `${scope}:${keyOf(request)}`;
+
+  if (config.type === "binding") {
+    if (!binding || typeof binding.limit !== "function") {
+      throw new Error(`Binding "${config.binding}" not found or is not a rate limiting binding.`);
+    }
+    return {
+      binding: config.binding,
+      keyOf: scopedKeyOf,
+      check: async (key) => {
+        const { success } = await (binding as RateLimit).limit({ key });
+        return { allowed: success, retryAfter: period };
+      },
+    };
+  }
+
+  if (config.type === "durableObject") {
+    if (!binding || typeof binding.idFromName !== "function") {
+      throw new Error(
+        `Binding "${config.binding}" not found or is not a Durable Object namespace.`,
+      );
+    }
+    const limit = config.limit;
+    if (typeof limit !== "number" || !(limit > 0)) {
+      throw new Error(`Rate limit for route "${r.path}" needs a positive limit.`);
+    }
+    const namespace = binding as DurableObjectNamespace<RateLimiter>;
+    return {
+      binding: config.binding,
+      keyOf: scopedKeyOf,
+      check: (key) => namespace.get(namespace.idFromName(key)).hit(limit, period),
+    };
+  }
+
+  throw new Error(`Invalid rateLimit type "${String(config.type)}" for route "${r.path}".`);
+}
+
+/** Resolves to a 429 response when the request is over its route's limit */
+async function enforceRateLimit(
+  request: Request,
+  router: CompiledRouter,
+  route: CompiledRoute,
+  requestId: string,
+): Promise<Response | null> {
+  let result: RateLimitResult;
+  try {
+    result = await route.rateLimit!.check(route.rateLimit!.keyOf(request));
+  } catch {
+    // Fail open: an unavailable limiter should not take the route down
+    return null;
+  }
+  if (result.allowed) return null;
+
+  const response = await renderError(request, router, route, 429, requestId);
+  response.headers.set("Retry-After", String(result.retryAfter));
+  return response;
+}
+
+/* ------------------------------- edge caching ------------------------------- */
+
+const CACHE_STATUS_HEADER = "x-workerstack-cache";
+const CACHED_AT_HEADER = "x-workerstack-cached-at";
+const CACHE_TTL_HEADER = "x-workerstack-cache-ttl";
+const ORIGIN_CACHE_CONTROL_HEADER = "x-workerstack-cache-control";
+/** Set on the entry under the URL key when the response varies on request headers */
+const CACHE_VARY_HEADER = "x-workerstack-cache-vary";
+
+function etagSuffix(mount: string): string {
+  return `-ws${hashString(normalizePath(mount)).toString(36)}`;
+}
+
+function etagOpaque(etag: string): string {
+  return etag.trim().replace(/^W\//, "").replace(/^"|"$/g, "");
+}
+
+/**
+ * Weak validator for a rewritten body. It is derived from the upstream ETag
+ * and the mount, so it stays stable across requests and maps back to the
+ * upstream tag for conditional requests.
+ */
+function transformedEtag(etag: string, mount: string): string {
+  return `W/"${etagOpaque(etag)}${etagSuffix(mount)}"`;
+}
+
+/**
+ * Maps router-issued validators in `If-None-Match` back to upstream tags so
+ * the upstream can answer 304 itself. Returns null when nothing was mapped.
+ */
+function upstreamIfNoneMatch(value: string, mount: string): string | null {
+  const suffix = etagSuffix(mount);
+  let mapped = false;
+  const tags = value.split(",").map((tag) => {
+    const opaque = etagOpaque(tag);
+    if (!opaque.endsWith(suffix)) return tag.trim();
+    mapped = true;
+    return `W/"${opaque.slice(0, -suffix.length)}"`;
+  });
+  return mapped ? tags.join(", ") : null;
+}
+
+/** Answers 304 when `If-None-Match` matches the response ETag (weak comparison) */
+async function notModified(request: Request, response: Response): Promise<Response> {
+  const ifNoneMatch = request.headers.get("if-none-match");
+  const etag = response.headers.get("etag");
+  if (!ifNoneMatch || !etag || response.status !== 200) return response;
+  if (request.method !== "GET" && request.method !== "HEAD") return response;
+
+  const opaque = etagOpaque(etag);
+  const matches =
+    ifNoneMatch.trim() === "*" || ifNoneMatch.split(",").some((tag) => etagOpaque(tag) === opaque);
+  if (!matches) return response;
+
+  await response.body?.cancel();
+  const headers = new Headers(response.headers);
+  headers.delete("content-length");
+  return new Response(null, { status: 304, headers });
+}
+
+function fromCache(cached: Response, status: "HIT" | "STALE"): Response {
+  const headers = new Headers(cached.headers);
+  const cacheControl = headers.get(ORIGIN_CACHE_CONTROL_HEADER);
+  if (cacheControl) headers.set("cache-control", cacheControl);
+  else headers.delete("cache-control");
+  headers.delete(ORIGIN_CACHE_CONTROL_HEADER);
+  headers.delete(CACHED_AT_HEADER);
+  headers.delete(CACHE_TTL_HEADER);
+  headers.set(CACHE_STATUS_HEADER, status);
+  return new Response(cached.body, { status: cached.status, headers });
+}
+
+function isPublic(cacheControl: string | null): boolean {
+  return /\bpublic\b/i.test(cacheControl || "");
+}
+
+/** Responses to credentialed requests are only shared when marked `public` */
+function isCacheable(response: Response, credentialed: boolean): boolean {
+  const cacheControl = response.headers.get("cache-control");
+  return (
+    response.status === 200 &&
+    !!response.body &&
+    !response.headers.has("set-cookie") &&
+    !/\b(?:private|no-store)\b/i.test(cacheControl || "") &&
+    !(response.headers.get("vary") || "").split(",").some((name) => name.trim() === "*") &&
+    (!credentialed || isPublic(cacheControl))
+  );
+}
+
+/** Extends the URL key with the values of the request headers named in `Vary` */
+function varyKey(key: Request, vary: string, request: Request): Request {
+  const keyUrl = new URL(key.url);
+  const names = vary.split(",").map((name) => name.trim().toLowerCase());
+  for (const name of [...new Set(names)].filter(Boolean).sort()) {
+    keyUrl.searchParams.set(`__vary_${name}`, request.headers.get(name) ?? "");
+  }
+  return new Request(keyUrl);
+}
+
+/** Streams the response to the client while a copy is written to the cache */
+function storeInCache(cache: Cache, key: Request, response: Response, ttl: number, swr: number) {
+  const [body, copy] = response.body!.tee();
+  const headers = new Headers(response.headers);
+  const cacheControl = response.headers.get("cache-control");
+  if (cacheControl) headers.set(ORIGIN_CACHE_CONTROL_HEADER, cacheControl);
+  headers.set("cache-control", `public, max-age=${ttl + swr}`);
+  headers.set(CACHED_AT_HEADER, String(Date.now()));
+  headers.set(CACHE_TTL_HEADER, String(ttl));
+
+  waitUntil(cache.put(key, new Response(copy, { status: response.status, headers })));
+  return new Response(body, response);
+}
+
+const revalidating = new Set<string>();
+
+/**
+ * Serves upstream responses through the Cache API. Asset-prefix paths are
+ * cached for `assets` seconds and HTML for `html` seconds, keyed by the client
+ * URL (and so by mount, host and variant) and the request headers named in the
+ * response's `Vary`. Within `staleWhileRevalidate` seconds past the TTL the
+ * stale copy is served while a refresh runs in the background. Entries hold
+ * the body before rewriting, so CSP nonces and browser-specific injections are
+ * produced per request.
+ *
+ * Requests with credentials (`Authorization`, `Cookie` or a route's `auth`)
+ * only read and write entries whose upstream response was marked `public`.
+ */
+async function cachedFetch(
+  request: Request,
+  mountActual: string,
+  rule: CacheConfig,
+  assetPrefixes: string[],
+  variant: string | undefined,
+  credentialed: boolean,
+  fetchUpstream: () => Promise<Response>,
+): Promise<Response> {
+  const url = new URL(request.url);
+  const path = mountActual === "/" ? url.pathname : url.pathname.slice(mountActual.length);
+  const isAsset = hasAssetPrefix(path, assetPrefixes);
+  if (!(isAsset && rule.assets) && !rule.html) return fetchUpstream();
+
+  const cache = caches.default;
+  const keyUrl = new URL(url);
+  if (variant) keyUrl.searchParams.set(VARIANT_PARAM, variant);
+  const urlKey = new Request(keyUrl);
+  const swr = rule.staleWhileRevalidate ?? 0;
+
+  const ttlFor = (response: Response) =>
+    isAsset && rule.assets
+      ? rule.assets
+      : (response.headers.get("content-type") || "").includes("text/html")
+        ? rule.html
+        : undefined;
+
+  const fetchAndStore = async () => {
+    const response = await fetchUpstream();
+    const ttl = ttlFor(response);
+    if (!ttl || !isCacheable(response, credentialed)) return response;
+
+    const vary = response.headers.get("vary");
+    if (!vary) return storeInCache(cache, urlKey, response, ttl, swr);
+    // The URL key then only records which request headers select the entry
+    const marker = new Response(null, {
+      headers: { [CACHE_VARY_HEADER]: vary, "cache-control": `public, max-age=${ttl + swr}` },
+    });
+    waitUntil(cache.put(urlKey, marker));
+    return storeInCache(cache, varyKey(urlKey, vary, request), response, ttl, swr);
+  };
+
+  let key = urlKey;
+  let cached = await cache.match(key);
+  const vary = cached?.headers.get(CACHE_VARY_HEADER);
+  if (vary) {
+    key = varyKey(urlKey, vary, request);
+    cached = await cache.match(key);
+  }
+  if (cached && credentialed && !isPublic(cached.headers.get(ORIGIN_CACHE_CONTROL_HEADER))) {
+    await cached.body?.cancel();
+    cached = undefined;
+  }
+
+  if (cached) {
+    const age = (Date.now() - Number(cached.headers.get(CACHED_AT_HEADER))) / 1000;
+    if (age < Number(cached.headers.get(CACHE_TTL_HEADER))) return fromCache(cached, "HIT");
+
+    if (!revalidating.has(key.url)) {
+      revalidating.add(key.url);
+      waitUntil(
+        fetchAndStore()
+          .then((response) => response.body?.cancel())
+          .finally(() => revalidating.delete(key.url)),
+      );
+    }
+    return fromCache(cached, "STALE");
+  }
+
+  const response = await fetchAndStore();
+  const headers = new Headers(response.headers);
+  headers.set(CACHE_STATUS_HEADER, "MISS");
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+/* ------------------------------ main proxy handler ------------------------------ */
+
+async function handleMountedApp(
+  request: Request,
+  upstream: Fetcher,
+  mountActual: string,
+  assetPrefixes: string[],
+  options?: {
     smoothTransitions?: boolean;
+    clientRuntime?: boolean;
     preloadStaticMounts?: string[];
+    rewriteJs?: boolean;
+    rewriteJson?: string[][];
+    rewriteXml?: boolean;
+    csp?: CspMode;
+    fragments?: FragmentContext;
+    route?: string;
+    params?: Record<string, string>;
+    variant?: string;
+    requestId?: string;
+    identity?: string;
+    trace?: Trace;
+    cache?: CacheConfig;
   },
 ): Promise<Response> {
-  mountActual = normalizePath(mountActual);
+  mountActual = normalizePath(mountActual);
+
+  const forwardUrl = new URL(request.url);
+
+  if (mountActual !== "/") {
+    if (forwardUrl.pathname === mountActual) {
+      forwardUrl.pathname = "/";
+    } else if (forwardUrl.pathname.startsWith(mountActual + "/")) {
+      forwardUrl.pathname = forwardUrl.pathname.slice(mountActual.length) || "/";
+    }
+  }
+
+  if (options?.preloadStaticMounts?.length && forwardUrl.pathname === "/__mf-preload.js") {
+    return getPreloadScriptResponse(options.preloadStaticMounts);
+  }
+
+  const forwardRequest = new Request(forwardUrl.toString(), request);
+  // Always overwrite so clients cannot spoof route info
+  forwardRequest.headers.set(MOUNT_HEADER, mountActual);
+  forwardRequest.headers.set(ROUTE_HEADER, options?.route ?? mountActual);
+  forwardRequest.headers.set(PARAMS_HEADER, JSON.stringify(options?.params ?? {}));
+  if (options?.variant) forwardRequest.headers.set(VARIANT_HEADER, options.variant);
+  else forwardRequest.headers.delete(VARIANT_HEADER);
+  if (options?.requestId) forwardRequest.headers.set(REQUEST_ID_HEADER, options.requestId);
+  if (options?.identity) forwardRequest.headers.set(IDENTITY_HEADER, options.identity);
+  else forwardRequest.headers.delete(IDENTITY_HEADER);
+
+  const ifNoneMatch = request.headers.get("if-none-match");
+  const upstreamTags = ifNoneMatch ? upstreamIfNoneMatch(ifNoneMatch, mountActual) : null;
+  if (upstreamTags) forwardRequest.headers.set("if-none-match", upstreamTags);
+
+  const fetchStart = performance.now();
+  const fetchUpstream = () => upstream.fetch(forwardRequest);
+  const upstreamResp =
+    options?.cache && request.method === "GET" && !request.headers.has("upgrade")
+      ? await cachedFetch(
+          request,
+          mountActual,
+          options.cache,
+          assetPrefixes,
+          options.variant,
+          !!options.identity ||
+            request.headers.has("authorization") ||
+            request.headers.has("cookie"),
+          fetchUpstream,
+        )
+      : await fetchUpstream();
+  const trace = options?.trace;
+  addPhase(trace, "upstream", performance.now() - fetchStart);
+  if (trace) trace.transform = trace.injection = undefined;
+  const headers = new Headers(upstreamResp.headers);
+  const contentType = headers.get("content-type") || "";
+  rewriteUrlHeaders(headers, mountActual, assetPrefixes, new URL(request.url));
+  // Let mounted service workers control the whole mount, wherever the script lives
+  if (
+    request.headers.get("service-worker") === "script" &&
+    mountActual !== "/" &&
+    !headers.has("service-worker-allowed")
+  ) {
+    headers.set("service-worker-allowed", `${mountActual}/`);
+  }
+
+  // Upgrades carry the socket on the response; rebuilding it without `webSocket` drops it
+  if (upstreamResp.webSocket) {
+    rewriteSetCookie(headers, mountActual);
+    return new Response(null, {
+      status: upstreamResp.status,
+      statusText: upstreamResp.statusText,
+      headers,
+      webSocket: upstreamResp.webSocket,
+    });
+  }
+
+  if (upstreamResp.status >= 300 && upstreamResp.status < 400) {
+    const loc = headers.get("location");
+    if (loc) headers.set("location", rewriteLocation(loc, mountActual, new URL(request.url)));
+    // A 304 for a router-issued validator keeps the client's weak ETag
+    const etag = headers.get("etag");
+    if (upstreamResp.status === 304 && upstreamTags && etag) {
+      headers.set("etag", transformedEtag(etag, mountActual));
+    }
+    rewriteSetCookie(headers, mountActual);
+    return new Response(null, { status: upstreamResp.status, headers });
+  }
+
+  if (contentType.includes("text/html")) {
+    if (trace) trace.transform = "html";
+    const headersOut = cloneHeadersForTransform(headers, mountActual);
+    rewriteSetCookie(headersOut, mountActual);
+
+    const userAgent = request.headers.get("user-agent") || "";
+    const isChromium = isChromiumBrowser(userAgent);
+    const preloadMounts = options?.preloadStaticMounts ?? [];
+
+    const origin = new URL(request.url).origin;
+    const nonce = await applyCspForInjections(
+      headersOut,
+      options?.csp ?? "nonce",
+      {
+        scripts: [
+          mountPathScript(mountActual),
+          ...(preloadMounts.length && isChromium ? [generateSpeculationRules(preloadMounts)] : []),
+        ],
+        styles: options?.smoothTransitions ? [SMOOTH_TRANSITIONS_CSS] : [],
+      },
+      {
+        scripts: [
+          ...(options?.clientRuntime ? [CLIENT_RUNTIME_PATH] : []),
+          ...(preloadMounts.length && !isChromium ? [preloadScriptPath(mountActual)] : []),
+        ].map((path) => origin + path),
+        base: origin + (mountActual === "/" ? "/" : mountActual + "/"),
+      },
+    );
+
+    const rewriter = new HTMLRewriter().on(
+      "*",
+      new AllAttributesRewriter(mountActual, assetPrefixes),
+    );
+    rewriter.on("head", new MountPathInjector(mountActual, nonce));
+    rewriter.on(
+      'script[type="importmap"]',
+      new ImportMapRewriter(mountActual, assetPrefixes, !!options?.rewriteJs),
+    );
+    if (options?.rewriteJs) {
+      rewriter.on(
+        'script[type="module"]:not([src])',
+        new InlineModuleScriptRewriter(mountActual, assetPrefixes),
+      );
+    }
+    if (options?.smoothTransitions) rewriter.on("head", new SmoothTransitionsInjector(nonce));
+    if (options?.clientRuntime) rewriter.on("head", new ClientRuntimeInjector(nonce));
+
+    if (preloadMounts.length) {
+      if (trace) trace.injection = isChromium ? "speculation" : "preload";
+      if (isChromium) {
+        rewriter.on("head", new SpeculationRulesInjector(preloadMounts, nonce));
+      } else {
+        rewriter.on("body", new PreloadScriptInjector(mountActual, nonce));
+      }
+    }
+
+    const collector = options?.fragments ? new FragmentCollector(options.fragments) : null;
+    if (collector) rewriter.on("workerstack-fragment", collector);
+
+    const transformed = rewriter.transform(
+      new Response(upstreamResp.body, {
+        status: upstreamResp.status,
+        statusText: upstreamResp.statusText,
+        headers: headersOut,
+      }),
+    );
+
+    if (!collector || !transformed.body) return transformed;
+    return new Response(transformed.body.pipeThrough(createFragmentSpliceStream(collector)), {
+      status: transformed.status,
+      statusText: transformed.statusText,
+      headers: transformed.headers,
+    });
+  }
+
+  if (mountActual !== "/" && isManifest(contentType, forwardUrl.pathname)) {
+    if (trace) trace.transform = "manifest";
+    const headersOut = cloneHeadersForTransform(headers, mountActual);
+    rewriteSetCookie(headersOut, mountActual);
+
+    const text = await upstreamResp.text();
+    let body = text;
+    try {
+      body = JSON.stringify(rewriteManifest(JSON.parse(text), mountActual, new URL(request.url)));
+    } catch {
+      // Serve malformed manifests untouched
+    }
+
+    return new Response(body, {
+      status: upstreamResp.status,
+      statusText: upstreamResp.statusText,
+      headers: headersOut,
+    });
+  }
+
+  if (options?.rewriteJson && mountActual !== "/" && contentType.includes("json")) {
+    if (trace) trace.transform = "json";
+    const headersOut = cloneHeadersForTransform(headers, mountActual);
+    rewriteSetCookie(headersOut, mountActual);
+
+    const text = await upstreamResp.text();
+    let body = text;
+    try {
+      const requestUrl = new URL(request.url);
+      let json = JSON.parse(text);
+      for (const pointer of options.rewriteJson) {
+        json = rewriteJsonPointer(json, pointer, (value) =>
+          scopeToMount(value, mountActual, requestUrl),
+        );
+      }
+      body = JSON.stringify(json);
+    } catch {
+      // Serve malformed JSON untouched
+    }
+
+    return new Response(body, {
+      status: upstreamResp.status,
+      statusText: upstreamResp.statusText,
+      headers: headersOut,
+    });
+  }
+
+  if (options?.rewriteXml && isFeedXml(contentType)) {
+    if (trace) trace.transform = "xml";
+    const headersOut = cloneHeadersForTransform(headers, mountActual);
+    rewriteSetCookie(headersOut, mountActual);
+
+    const body = upstreamResp.body?.pipeThrough(
+      createXmlRewriteStream(mountActual, new URL(request.url)),
+    );
+
+    return new Response(body, {
+      status: upstreamResp.status,
+      statusText: upstreamResp.statusText,
+      headers: headersOut,
+    });
+  }
+
+  if (contentType.includes("text/css")) {
+    if (trace) trace.transform = "css";
+    const headersOut = cloneHeadersForTransform(headers, mountActual);
+    rewriteSetCookie(headersOut, mountActual);
+
+    const body = upstreamResp.body?.pipeThrough(createCssRewriteStream(mountActual, assetPrefixes));
+
+    return new Response(body, {
+      status: upstreamResp.status,
+      statusText: upstreamResp.statusText,
+      headers: headersOut,
+    });
+  }
+
+  if (options?.rewriteJs && isJavaScript(contentType)) {
+    if (trace) trace.transform = "js";
+    const headersOut = cloneHeadersForTransform(headers, mountActual);
+    rewriteSetCookie(headersOut, mountActual);
+
+    const body = upstreamResp.body?.pipeThrough(createJsRewriteStream(mountActual, assetPrefixes));
+
+    return new Response(body, {
+      status: upstreamResp.status,
+      statusText: upstreamResp.statusText,
+      headers: headersOut,
+    });
+  }
+
+  rewriteSetCookie(headers, mountActual);
+  return new Response(upstreamResp.body, {
+    status: upstreamResp.status,
+    statusText: upstreamResp.statusText,
+    headers,
+  });
+}
+
+/* ------------------------------- config builder ------------------------------- */
+
+function buildRoutes(envObj: typeof env = env): {
+  routes: CompiledRoute[];
+  smoothTransitions?: boolean;
+  clientRuntime?: boolean;
+  fragments: FragmentOptions | null;
+  errorPage?: string;
+  identitySecret?: string;
+  redirects: CompiledPathRule[];
+  rewrites: CompiledPathRule[];
+  trailingSlash: CompiledRouter["trailingSlash"];
+  tracing?: Required<TracingConfig>;
+  analytics?: AnalyticsEngineDataset;
+  introspection?: CompiledIntrospection;
+} {
+  if (!("ROUTES" in envObj)) {
+    throw new Error(
+      "ROUTES environment variable is required. Run `npm run build` to compile routes from sub-app wrangler.json files.",
+    );
+  }
+
+  let parsed: any;
+  const raw = (envObj as any).ROUTES;
+  if (typeof raw === "string") {
+    try {
+      parsed = JSON.parse(raw);
+    } catch (e) {
+      throw new Error(`Failed to parse ROUTES: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  } else if (raw && typeof raw === "object") {
+    parsed = raw;
+  } else {
+    throw new Error("ROUTES must be a JSON object or a JSON string.");
+  }
+
+  const globals: Partial<RoutesConfig> =
+    parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  const smoothTransitions = globals.smoothTransitions;
+  const fragments =
+    globals.fragments === false
+      ? null
+      : {
+          ...DEFAULT_FRAGMENT_OPTIONS,
+          ...(typeof globals.fragments === "object" ? globals.fragments : {}),
+        };
+
+  const routeDefs: RouteConfig[] = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray(parsed?.routes)
+      ? parsed.routes
+      : [];
+
+  if (!routeDefs.length) {
+    throw new Error("ROUTES must contain at least one route definition.");
+  }
+
+  const compiled: CompiledRoute[] = [];
+
+  for (const r of routeDefs) {
+    if (!r.binding || !r.path) {
+      throw new Error(`Invalid route configuration: ${JSON.stringify(r)}`);
+    }
+
+    // Routes whose binding is missing stay in the table so they answer 503
+    // instead of every request failing while the router is built
+    const binding = (envObj as any)[r.binding];
+    const unavailable = !isFetcher(binding);
+    if (unavailable) {
+      console.warn(
+        `Binding "${r.binding}" not found or is not a valid service binding; "${r.path}" answers 503.`,
+      );
+    }
+
+    const expr = normalizePath(r.path);
+    const { re, isStaticMount, staticMount, paramNames } = compilePathExpr(expr);
+    const host = r.host ? compileHostExpr(r.host) : undefined;
+
+    const duplicate = paramNames.find((name) => host?.paramNames.includes(name));
+    if (duplicate) throw new Error(`Duplicate param ":${duplicate}"`);
+
+    const csp = r.csp ?? globals.csp ?? "nonce";
+    if (csp !== "nonce" && csp !== "hash") {
+      throw new Error(`Invalid csp mode "${String(csp)}" for route "${r.path}".`);
+    }
+
+    const fallthrough = r.fallthrough === true ? [404] : r.fallthrough || undefined;
+    if (fallthrough && (!Array.isArray(fallthrough) || !fallthrough.every(Number.isInteger))) {
+      throw new Error(`Invalid fallthrough for route "${r.path}": expected true or status codes.`);
+    }
+
+    const timeout = r.timeout ?? globals.timeout;
+    if (timeout !== undefined && !(typeof timeout === "number" && timeout > 0)) {
+      throw new Error(`Invalid timeout for route "${r.path}": expected milliseconds.`);
+    }
+
+    const intercept = r.interceptErrors;
+    if (
+      intercept !== undefined &&
+      typeof intercept !== "boolean" &&
+      !(Array.isArray(intercept) && intercept.every(Number.isInteger))
+    ) {
+      throw new Error(
+        `Invalid interceptErrors for route "${r.path}": expected true or status codes.`,
+      );
+    }
+
+    compiled.push({
+      expr,
+      binding: unavailable ? UNAVAILABLE_BINDING : binding,
+      bindingName: r.binding,
+      unavailable,
+      preload: r.preload,
+      rewriteJs: r.rewriteJs ?? globals.rewriteJs,
+      csp,
+      ...compileVariants(r, envObj),
+      fallthrough,
+      timeout,
+      errorPage: r.errorPage,
+      auth: compileAuth(r, envObj),
+      headerPolicy: compileHeaderPolicy(r, globals),
+      rateLimit: compileRateLimit(r, envObj),
+      cache: r.cache ?? globals.cache,
+      rewriteJson: compileJsonPointers(r.rewriteBody?.json, r.path),
+      rewriteXml: !!r.rewriteBody?.xml,
+      sitemap: r.sitemap ?? globals.sitemap,
+      robots: r.robots ?? globals.robots,
+      openapi: compileOpenApiPath(r),
+      interceptErrors:
+        intercept === true
+          ? (status) => status >= 500
+          : Array.isArray(intercept)
+            ? (status) => intercept.includes(status)
+            : undefined,
+      re,
+      isStaticMount,
+      staticMount,
+      paramNames,
+      baseSpecificity: computeBaseSpecificity(expr),
+      host: r.host,
+      hostRe: host?.re,
+      hostParamNames: host?.paramNames ?? [],
+      hostSpecificity: host?.specificity ?? 0,
+    });
+  }
+
+  compiled.sort((a, b) => {
+    if (b.hostSpecificity !== a.hostSpecificity) return b.hostSpecificity - a.hostSpecificity;
+    if (b.baseSpecificity !== a.baseSpecificity) return b.baseSpecificity - a.baseSpecificity;
+    return b.expr.length - a.expr.length;
+  });
+
+  const identitySecret = compiled.some((route) => route.auth)
+    ? readSecret(envObj, globals.identitySecret ?? DEFAULT_IDENTITY_SECRET, "auth")
+    : undefined;
+
+  const trailingSlash = globals.trailingSlash ?? "preserve";
+  if (!["always", "never", "preserve"].includes(trailingSlash)) {
+    throw new Error(`Invalid trailingSlash "${String(trailingSlash)}".`);
+  }
+
+  return {
+    routes: compiled,
+    smoothTransitions,
+    clientRuntime: globals.clientRuntime,
+    fragments,
+    errorPage: globals.errorPage,
+    identitySecret,
+    redirects: compilePathRules(globals.redirects, "redirect"),
+    rewrites: compilePathRules(globals.rewrites, "rewrite"),
+    trailingSlash,
+    tracing: compileTracing(globals.tracing, envObj),
+    analytics: compileAnalytics(globals.analytics, envObj),
+    introspection: compileIntrospection(globals.introspection, envObj),
+  };
+}
+
+/* ------------------------------- router cache ------------------------------- */
+
+/**
+ * Compiled routers keyed by env object. Workers reuse the same `env` for the
+ * lifetime of an isolate, so ROUTES is parsed, compiled and sorted once rather
+ * than on every request. The vars and secrets read while compiling (ROUTES,
+ * ASSET_PREFIXES, WORKERSTACK_TRACING, auth secrets, ...) are kept to detect a
+ * changed config on the same env object.
+ */
+const routerCache = new WeakMap<object, { inputs: Map<string, unknown>; router: CompiledRouter }>();
+
+function insertStaticMount(trie: MountTrieNode, route: CompiledRoute) {
+  let node = trie;
+  for (const segment of route.staticMount!.split("/").slice(1)) {
+    let next = node.children.get(segment);
+    if (!next) {
+      next = { children: new Map(), routes: [] };
+      node.children.set(segment, next);
+    }
+    node = next;
+  }
+  // Routes are pre-sorted, so the first matching route registered for a mount wins
+  node.routes.push(route);
+}
+
+function compileRouter(envObj: typeof env = env): CompiledRouter {
+  const {
+    routes,
+    smoothTransitions,
+    clientRuntime,
+    fragments,
+    errorPage,
+    identitySecret,
+    redirects,
+    rewrites,
+    trailingSlash,
+    tracing,
+    analytics,
+    introspection,
+  } = buildRoutes(envObj);
+
+  const staticTrie: MountTrieNode = { children: new Map(), routes: [] };
+  const dynamicRoutes: CompiledRoute[] = [];
+  const rootRoutes: CompiledRoute[] = [];
+
+  for (const route of routes) {
+    if (route.staticMount === "/" || route.expr === "/") {
+      rootRoutes.push(route);
+    } else if (route.isStaticMount) {
+      insertStaticMount(staticTrie, route);
+    } else {
+      dynamicRoutes.push(route);
+    }
+  }
+
+  const preloadRoutes = routes.filter((r) => r.preload && r.isStaticMount && r.staticMount);
+
+  return {
+    routes,
+    staticTrie,
+    dynamicRoutes,
+    rootRoutes,
+    preloadRoutes,
+    assetPrefixes: buildAssetPrefixes(envObj),
+    smoothTransitions,
+    clientRuntime,
+    fragments,
+    errorPage,
+    identityKey: identitySecret ? importHmacKey(identitySecret) : undefined,
+    redirects,
+    rewrites,
+    trailingSlash,
+    tracing,
+    analytics,
+    introspection,
+  };
+}
+
+function getRouter(envObj: typeof env = env): CompiledRouter {
+  const cached = routerCache.get(envObj);
+  if (cached && [...cached.inputs].every(([key, value]) => (envObj as any)[key] === value)) {
+    return cached.router;
+  }
+
+  const inputs = new Map<string, unknown>();
+  const track = (target: object, key: string | symbol) => {
+    const value = Reflect.get(target, key);
+    // Bindings are not recorded, so checking the inputs never re-reads them
+    const binding = value !== null && (typeof value === "object" || typeof value === "function");
+    if (typeof key === "string" && (key === "ROUTES" || !binding)) inputs.set(key, value);
+    return value;
+  };
+  const tracked = new Proxy(envObj, {
+    get: (target, key) => track(target, key),
+    has: (target, key) => {
+      track(target, key);
+      return Reflect.has(target, key);
+    },
+  });
+
+  const router = compileRouter(tracked);
+  routerCache.set(envObj, { inputs, router });
+  return router;
+}
+
+/* -------------------------------- matching -------------------------------- */
+
+function scoreMatch(route: CompiledRoute, mountActual: string): number {
+  return mountActual.length * 1000000 + route.baseSpecificity * 1000 + route.expr.length;
+}
+
+function matchHost(route: CompiledRoute, hostname: string): Record<string, string> | null {
+  if (!route.hostRe) return {};
+  const m = route.hostRe.exec(hostname);
+  return m ? extractParams(m, route.hostParamNames) : null;
+}
+
+/**
+ * Visits every route that can serve a request with its path score. Static
+ * mounts are resolved by walking the segment trie; only dynamic expressions
+ * fall back to regex matching. Root routes are always candidates, scoring 0
+ * unless their expression matches the path, so they act as the catch-all.
+ */
+function visitCandidates(
+  router: CompiledRouter,
+  pathname: string,
+  visit: (
+    route: CompiledRoute,
+    mountActual: string,
+    pathScore: number,
+    pathParams?: () => Record<string, string>,
+  ) => void,
+) {
+  let node = router.staticTrie;
+  const segments = pathname.split("/");
+  for (let i = 1; i < segments.length; i++) {
+    const next = node.children.get(segments[i]);
+    if (!next) break;
+    node = next;
+    for (const route of node.routes) {
+      visit(route, route.staticMount!, scoreMatch(route, route.staticMount!));
+    }
+  }
+
+  for (const route of router.dynamicRoutes) {
+    const m = route.re.exec(pathname);
+    if (!m) continue;
+
+    const mountActual = normalizePath(m[1]);
+    visit(route, mountActual, scoreMatch(route, mountActual), () =>
+      extractParams(m, route.paramNames),
+    );
+  }
+
+  for (const route of router.rootRoutes) {
+    visit(route, "/", route.re.test(pathname) ? scoreMatch(route, "/") : 0);
+  }
+}
+
+/**
+ * Finds the most specific route for a request. A matching host constraint
+ * outranks any path specificity.
+ */
+function matchRoute(router: CompiledRouter, url: URL): RouteMatch | null {
+  const hostname = url.hostname.toLowerCase();
+  let best: RouteMatch | null = null;
+
+  visitCandidates(router, url.pathname, (route, mountActual, pathScore, pathParams) => {
+    const score = route.hostSpecificity * 1000000000 + pathScore;
+    if (best && score <= best.score) return;
+
+    const hostParams = matchHost(route, hostname);
+    if (!hostParams) return;
+
+    best = { route, mountActual, params: { ...hostParams, ...pathParams?.() }, score };
+  });
+
+  return best;
+}
+
+/** All routes that can serve a request, most specific first */
+function matchRoutes(router: CompiledRouter, url: URL): RouteMatch[] {
+  const hostname = url.hostname.toLowerCase();
+  const matches: RouteMatch[] = [];
+
+  visitCandidates(router, url.pathname, (route, mountActual, pathScore, pathParams) => {
+    const hostParams = matchHost(route, hostname);
+    if (!hostParams) return;
+
+    const score = route.hostSpecificity * 1000000000 + pathScore;
+    matches.push({ route, mountActual, params: { ...hostParams, ...pathParams?.() }, score });
+  });
+
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+/* ---------------------------- sitemaps / robots.txt ---------------------------- */
+
+const SITEMAP_PATH = "/sitemap.xml";
+/** Where the root mount's own sitemap is served once /sitemap.xml is the index */
+const ROOT_SITEMAP_PATH = "/sitemap-root.xml";
+const ROBOTS_PATH = "/robots.txt";
+const CRAWLER_CACHE_CONTROL = "public, max-age=300";
+
+/** Static mounts on this host that take part, by path; auth-gated mounts are never crawled */
+function crawlRoutes(router: CompiledRouter, url: URL, kind: "sitemap" | "robots") {
+  const hostname = url.hostname.toLowerCase();
+  const seen = new Set<string>();
+  return router.routes
+    .filter((route) => {
+      if (!route[kind] || !route.staticMount || route.auth || !matchHost(route, hostname)) {
+        return false;
+      }
+      if (seen.has(route.staticMount)) return false;
+      seen.add(route.staticMount);
+      return true;
+    })
+    .sort((a, b) => (a.staticMount! < b.staticMount! ? -1 : 1));
+}
+
+/** Fetches a file from a mount as the sub-app serves it, or null when it has none */
+async function fetchMountFile(
+  route: CompiledRoute,
+  url: URL,
+  path: string,
+  router: CompiledRouter,
+  requestId: string,
+): Promise<Response | null> {
+  const mount = route.staticMount!;
+  const fileUrl = new URL(mount === "/" ? path : mount + path, url);
+  try {
+    const response = await withTimeout(
+      handleMountedApp(new Request(fileUrl), route.binding, mount, router.assetPrefixes, {
+        route: route.expr,
+        requestId,
+      }),
+      route.timeout,
+    );
+    if (response?.ok) return response;
+    await response?.body?.cancel();
+  } catch {
+    // A failing mount is left out rather than failing the aggregate
+  }
+  return null;
+}
+
+async function sitemapIndex(
+  url: URL,
+  router: CompiledRouter,
+  routes: CompiledRoute[],
+  requestId: string,
+): Promise<Response> {
+  const locs = await Promise.all(
+    routes.map(async (route) => {
+      const file = await fetchMountFile(route, url, SITEMAP_PATH, router, requestId);
+      await file?.body?.cancel();
+      if (!file) return null;
+      const path = route.staticMount === "/" ? ROOT_SITEMAP_PATH : route.staticMount + SITEMAP_PATH;
+      return new URL(path, url).toString();
+    }),
+  );
+
+  const entries = locs
+    .filter((loc) => loc !== null)
+    .map((loc) => `  <sitemap><loc>${escapeHtml(loc)}</loc></sitemap>\n`)
+    .join("");
+  return new Response(
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+      `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n${entries}</sitemapindex>\n`,
+    {
+      headers: {
+        "content-type": "application/xml; charset=utf-8",
+        "cache-control": CRAWLER_CACHE_CONTROL,
+      },
+    },
+  );
+}
 
-  const forwardUrl = new URL(request.url);
+type RobotsGroup = { agents: string[]; rules: string[] };
 
-  if (mountActual !== "/") {
-    if (forwardUrl.pathname === mountActual) {
-      forwardUrl.pathname = "/";
-    } else if (forwardUrl.pathname.startsWith(mountActual + "/")) {
-      forwardUrl.pathname = forwardUrl.pathname.slice(mountActual.length) || "/";
+/**
+ * Parses robots.txt groups, moving Allow / Disallow paths under the mount.
+ * Sitemap lines are dropped in favour of the aggregated index.
+ */
+function parseRobots(text: string, mount: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let group: RobotsGroup | undefined;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/#.*/, "").trim();
+    const idx = line.indexOf(":");
+    if (idx === -1) continue;
+    const field = line.slice(0, idx).trim();
+    const value = line.slice(idx + 1).trim();
+    const key = field.toLowerCase();
+
+    if (key === "user-agent") {
+      if (!group || group.rules.length) groups.push((group = { agents: [], rules: [] }));
+      group.agents.push(value);
+    } else if (key === "sitemap" || !group) {
+      continue;
+    } else if (key === "allow" || key === "disallow") {
+      const name = key === "allow" ? "Allow" : "Disallow";
+      if (mount === "/") group.rules.push(`${name}: ${value}`);
+      // An empty Disallow allows everything, which says nothing about other mounts
+      else if (value)
+        group.rules.push(`${name}: ${mount}${value.startsWith("/") ? "" : "/"}${value}`);
+    } else {
+      group.rules.push(`${field}: ${value}`);
     }
   }
 
-  if (options?.preloadStaticMounts?.length && forwardUrl.pathname === "/__mf-preload.js") {
-    return getPreloadScriptResponse(options.preloadStaticMounts);
-  }
+  return groups;
+}
 
-  const upstreamResp = await upstream.fetch(new Request(forwardUrl.toString(), request));
-  const headers = new Headers(upstreamResp.headers);
-  const contentType = headers.get("content-type") || "";
+async function mergedRobots(
+  url: URL,
+  router: CompiledRouter,
+  routes: CompiledRoute[],
+  requestId: string,
+): Promise<Response> {
+  const files = await Promise.all(
+    routes.map(async (route) => {
+      const file = await fetchMountFile(route, url, ROBOTS_PATH, router, requestId);
+      return file ? parseRobots(await file.text(), route.staticMount!) : [];
+    }),
+  );
 
-  if (upstreamResp.status >= 300 && upstreamResp.status < 400) {
-    const loc = headers.get("location");
-    if (loc) headers.set("location", rewriteLocation(loc, mountActual, new URL(request.url)));
-    rewriteSetCookie(headers, mountActual);
-    return new Response(null, { status: upstreamResp.status, headers });
+  // Groups for the same user agents are merged, in first-seen order
+  const merged = new Map<string, RobotsGroup>();
+  for (const group of files.flat()) {
+    const key = group.agents
+      .map((agent) => agent.toLowerCase())
+      .sort()
+      .join("\n");
+    const existing = merged.get(key);
+    if (existing) existing.rules.push(...group.rules);
+    else merged.set(key, { agents: group.agents, rules: [...group.rules] });
   }
+  if (!merged.size) merged.set("*", { agents: ["*"], rules: [] });
 
-  if (contentType.includes("text/html")) {
-    const htmlText = await upstreamResp.text();
-    const headersOut = cloneHeadersForTransform(headers);
-    rewriteSetCookie(headersOut, mountActual);
+  let body = [...merged.values()]
+    .map(({ agents, rules }) =>
+      [
+        ...agents.map((agent) => `User-agent: ${agent}`),
+        ...(rules.length ? rules : ["Disallow:"]),
+      ].join("\n"),
+    )
+    .join("\n\n");
+  if (crawlRoutes(router, url, "sitemap").length) {
+    body += `\n\nSitemap: ${new URL(SITEMAP_PATH, url)}`;
+  }
 
-    const userAgent = request.headers.get("user-agent") || "";
-    const isChromium = isChromiumBrowser(userAgent);
+  return new Response(`${body}\n`, {
+    headers: {
+      "content-type": "text/plain; charset=utf-8",
+      "cache-control": CRAWLER_CACHE_CONTROL,
+    },
+  });
+}
 
-    const rewriter = new HTMLRewriter().on(
-      "*",
-      new AllAttributesRewriter(mountActual, assetPrefixes),
-    );
-    rewriter.on("head", new MountPathInjector(mountActual));
-    if (options?.smoothTransitions) rewriter.on("head", new SmoothTransitionsInjector());
+/**
+ * Answers /sitemap.xml, /sitemap-root.xml and /robots.txt when some route on
+ * this host takes part; otherwise resolves to null and the path is routed.
+ */
+async function crawlerResponse(
+  request: Request,
+  url: URL,
+  router: CompiledRouter,
+  requestId: string,
+): Promise<Response | null> {
+  const { pathname } = url;
+  if (pathname !== SITEMAP_PATH && pathname !== ROOT_SITEMAP_PATH && pathname !== ROBOTS_PATH) {
+    return null;
+  }
 
-    if (options?.preloadStaticMounts?.length) {
-      if (isChromium) {
-        rewriter.on("head", new SpeculationRulesInjector(options.preloadStaticMounts));
-      } else {
-        rewriter.on("body", new PreloadScriptInjector(mountActual));
-      }
-    }
+  const kind = pathname === ROBOTS_PATH ? "robots" : "sitemap";
+  const routes = crawlRoutes(router, url, kind);
+  if (!routes.length) return null;
 
-    return rewriter.transform(
-      new Response(htmlText, {
-        status: upstreamResp.status,
-        statusText: upstreamResp.statusText,
-        headers: headersOut,
-      }),
-    );
+  let response: Response | null;
+  if (pathname === SITEMAP_PATH) response = await sitemapIndex(url, router, routes, requestId);
+  else if (pathname === ROBOTS_PATH) response = await mergedRobots(url, router, routes, requestId);
+  else {
+    const root = routes.find((route) => route.staticMount === "/");
+    response = root ? await fetchMountFile(root, url, SITEMAP_PATH, router, requestId) : null;
+    if (!response) return renderError(request, router, root, 404, requestId);
   }
 
-  if (contentType.includes("text/css")) {
-    const cssText = await upstreamResp.text();
-    const headersOut = cloneHeadersForTransform(headers);
-    rewriteSetCookie(headersOut, mountActual);
+  if (request.method !== "HEAD") return response;
+  await response.body?.cancel();
+  return new Response(null, response);
+}
+
+/* ------------------------------- introspection ------------------------------- */
 
-    const cssMountPrefix = mountActual === "/" ? "" : mountActual;
+const INTROSPECTION_PREFIX = "/__workerstack/";
+const DEFAULT_INTROSPECTION_TOKEN = "WORKERSTACK_INTROSPECTION_TOKEN";
+const DEV_ENV = "WORKERSTACK_DEV";
 
-    // Rewrite url() references to asset paths
-    const prefixPattern = assetPrefixes
-      .map((p) => p.slice(1, -1))
-      .map((p) => p.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
-      .join("|");
-    const urlRegex = new RegExp(`url\\(\\s*(['"]?)(/(?:${prefixPattern})/)`, "g");
-    let rewrittenCss = cssText.replace(urlRegex, `url($1${cssMountPrefix}$2`);
+type CompiledIntrospection = {
+  /** SHA-256 of the bearer token; unset in dev mode, where every request is served */
+  token?: Promise<Uint8Array>;
+};
 
-    // Rewrite @import paths to asset prefixes
-    const importRegex = new RegExp(`@import\\s+(['"])(/(?:${prefixPattern})/)`, "g");
-    rewrittenCss = rewrittenCss.replace(importRegex, `@import $1${cssMountPrefix}$2`);
+function compileIntrospection(
+  config: boolean | IntrospectionConfig | undefined,
+  envObj: typeof env,
+): CompiledIntrospection | undefined {
+  if (config === false) return undefined;
+  // Set only in .dev.vars, so deployed workers never serve the endpoints openly
+  if (envFlag(envObj, DEV_ENV)) return {};
+  if (!config) return undefined;
 
-    return new Response(rewrittenCss, {
-      status: upstreamResp.status,
-      statusText: upstreamResp.statusText,
-      headers: headersOut,
-    });
+  const name = (typeof config === "object" && config.token) || DEFAULT_INTROSPECTION_TOKEN;
+  return { token: sha256Bytes(readSecret(envObj, name, "introspection")) };
+}
+
+function scoreBreakdown(route: CompiledRoute, mountActual: string, pathScore: number) {
+  // Root routes whose expression does not match the path are catch-alls scoring 0
+  const matched = pathScore > 0;
+  return {
+    hostSpecificity: route.hostSpecificity,
+    mountLength: matched ? mountActual.length : 0,
+    baseSpecificity: matched ? route.baseSpecificity : 0,
+    exprLength: matched ? route.expr.length : 0,
+  };
+}
+
+function describeRoute(route: CompiledRoute, router: CompiledRouter) {
+  return {
+    order: router.routes.indexOf(route),
+    expr: route.expr,
+    binding: route.bindingName,
+    host: route.host ?? null,
+    kind:
+      route.staticMount === "/" || route.expr === "/"
+        ? "root"
+        : route.isStaticMount
+          ? "static"
+          : "dynamic",
+    regex: route.re.source,
+    hostRegex: route.hostRe?.source ?? null,
+    staticMount: route.staticMount ?? null,
+    paramNames: [...route.hostParamNames, ...route.paramNames],
+    baseSpecificity: route.baseSpecificity,
+    hostSpecificity: route.hostSpecificity,
+    preload: !!route.preload,
+    variants: route.variants?.map(({ name, weight }) => ({ name, weight })) ?? null,
+    fallthrough: route.fallthrough ?? null,
+  };
+}
+
+type Candidate = RouteMatch & { hostMatched: boolean; pathScore: number };
+
+/** Explains the winner by the first score component that beats the runner-up */
+function explainMatch(winner: Candidate | undefined, runnerUp: Candidate | undefined): string {
+  if (!winner) return "No route matches this host and path.";
+  if (!runnerUp) return `"${winner.route.expr}" is the only route for this host and path.`;
+
+  const a = scoreBreakdown(winner.route, winner.mountActual, winner.pathScore);
+  const b = scoreBreakdown(runnerUp.route, runnerUp.mountActual, runnerUp.pathScore);
+  if (a.hostSpecificity === b.hostSpecificity && winner.pathScore > 0 && runnerUp.pathScore === 0) {
+    return `"${winner.route.expr}" matches the path; "${runnerUp.route.expr}" is only the catch-all.`;
   }
 
-  rewriteSetCookie(headers, mountActual);
-  return new Response(upstreamResp.body, {
-    status: upstreamResp.status,
-    statusText: upstreamResp.statusText,
-    headers,
-  });
+  const labels = {
+    hostSpecificity: "host specificity",
+    mountLength: "mount length",
+    baseSpecificity: "base specificity",
+    exprLength: "expression length",
+  } as const;
+  for (const key of Object.keys(labels) as (keyof typeof labels)[]) {
+    if (a[key] !== b[key]) {
+      return `"${winner.route.expr}" beats "${runnerUp.route.expr}" on ${labels[key]} (${a[key]} > ${b[key]}).`;
+    }
+  }
+  return `"${winner.route.expr}" ties with "${runnerUp.route.expr}" and comes first in route order.`;
 }
 
-/* ------------------------------- config builder ------------------------------- */
+/** Mirrors routeRequest: trailing slash, redirects, rewrites, then matching */
+function explainPath(router: CompiledRouter, url: URL) {
+  const slash = trailingSlashRedirect(router.trailingSlash, url);
+  const redirect = slash ? null : applyPathRule(router.redirects, url);
+  const rewrite = slash || redirect ? null : applyPathRule(router.rewrites, url);
+  const target = rewrite?.target ?? url;
 
-function buildRoutes(envObj: typeof env = env): {
-  routes: CompiledRoute[];
-  smoothTransitions?: boolean;
-} {
-  if (!("ROUTES" in envObj)) {
-    throw new Error(
-      "ROUTES environment variable is required. Run `npm run build` to compile routes from sub-app wrangler.json files.",
-    );
+  const hostname = target.hostname.toLowerCase();
+  const candidates: Candidate[] = [];
+  visitCandidates(router, target.pathname, (route, mountActual, pathScore, pathParams) => {
+    const hostParams = matchHost(route, hostname);
+    candidates.push({
+      route,
+      mountActual,
+      params: { ...hostParams, ...pathParams?.() },
+      score: route.hostSpecificity * 1000000000 + pathScore,
+      hostMatched: !!hostParams,
+      pathScore,
+    });
+  });
+  candidates.sort((a, b) => Number(b.hostMatched) - Number(a.hostMatched) || b.score - a.score);
+
+  const best = matchRoute(router, target);
+  const isBest = (c: Candidate) => c.route === best?.route && c.mountActual === best.mountActual;
+  const winner = candidates.find(isBest);
+  const runnerUp = candidates.find((c) => c.hostMatched && !isBest(c));
+
+  return {
+    url: url.toString(),
+    redirect: slash
+      ? { location: slash.headers.get("location"), status: slash.status }
+      : redirect
+        ? { location: redirect.target.toString(), status: redirect.rule.status }
+        : null,
+    rewrite: rewrite ? rewrite.target.pathname + rewrite.target.search : null,
+    winner: best
+      ? {
+          expr: best.route.expr,
+          binding: best.route.bindingName,
+          mount: best.mountActual,
+          params: best.params,
+          score: best.score,
+        }
+      : null,
+    reason: explainMatch(winner, runnerUp),
+    candidates: candidates.map((c) => ({
+      ...describeRoute(c.route, router),
+      mount: c.mountActual,
+      params: c.params,
+      hostMatched: c.hostMatched,
+      score: c.score,
+      ...scoreBreakdown(c.route, c.mountActual, c.pathScore),
+    })),
+  };
+}
+
+/**
+ * Serves `/__workerstack/routes` and `/__workerstack/match?path=` to requests
+ * carrying the bearer token, or to any request in dev mode.
+ */
+async function introspect(
+  request: Request,
+  url: URL,
+  router: CompiledRouter,
+  requestId: string,
+): Promise<Response> {
+  const { token } = router.introspection!;
+  if (token) {
+    const provided = await sha256Bytes(bearerToken(request) ?? "");
+    const expected = await token;
+    // Compare digests in constant time so response timing reveals nothing
+    let diff = 0;
+    for (let i = 0; i < expected.length; i++) diff |= expected[i] ^ provided[i];
+    if (diff !== 0) return renderError(request, router, undefined, 401, requestId);
   }
 
-  let parsed: any;
-  const raw = (envObj as any).ROUTES;
-  if (typeof raw === "string") {
-    try {
-      parsed = JSON.parse(raw);
-    } catch (e) {
-      throw new Error(`Failed to parse ROUTES: ${e instanceof Error ? e.message : String(e)}`);
+  const endpoint = url.pathname.slice(INTROSPECTION_PREFIX.length);
+  let body: unknown;
+  if (endpoint === "routes") {
+    body = {
+      routes: router.routes.map((route) => describeRoute(route, router)),
+      redirects: router.redirects.map(({ source, destination, status }) => ({
+        source,
+        destination,
+        status,
+      })),
+      rewrites: router.rewrites.map(({ source, destination }) => ({ source, destination })),
+      trailingSlash: router.trailingSlash,
+      assetPrefixes: router.assetPrefixes,
+    };
+  } else if (endpoint === "match") {
+    const path = url.searchParams.get("path");
+    if (!path?.startsWith("/")) {
+      return Response.json(
+        { error: { status: 400, message: "Expected a ?path= starting with /", requestId } },
+        { status: 400, headers: { [REQUEST_ID_HEADER]: requestId } },
+      );
     }
-  } else if (raw && typeof raw === "object") {
-    parsed = raw;
+    const target = new URL(path, url);
+    const host = url.searchParams.get("host");
+    if (host) target.host = host;
+    body = explainPath(router, target);
   } else {
-    throw new Error("ROUTES must be a JSON object or a JSON string.");
+    return renderError(request, router, undefined, 404, requestId);
   }
 
-  const smoothTransitions: boolean | undefined =
-    parsed && typeof parsed === "object" && !Array.isArray(parsed)
-      ? parsed.smoothTransitions
-      : undefined;
+  return Response.json(body, {
+    headers: { "cache-control": "no-store", [REQUEST_ID_HEADER]: requestId },
+  });
+}
+
+/* ---------------------------------- OpenAPI ---------------------------------- */
 
-  const routeDefs: RouteConfig[] = Array.isArray(parsed)
-    ? parsed
-    : Array.isArray(parsed?.routes)
-      ? parsed.routes
-      : [];
+/** Public, unlike the other `/__workerstack/` endpoints: it only merges published specs */
+const OPENAPI_PATH = `${INTROSPECTION_PREFIX}openapi.json`;
+const OPENAPI_TTL = 5 * 60 * 1000;
+const COMPONENT_SECTIONS = [
+  "schemas",
+  "responses",
+  "parameters",
+  "examples",
+  "requestBodies",
+  "headers",
+  "securitySchemes",
+  "links",
+  "callbacks",
+  "pathItems",
+];
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
 
-  if (!routeDefs.length) {
-    throw new Error("ROUTES must contain at least one route definition.");
+/** Merged documents per router and host, so sub-apps are not fetched on every request */
+const openApiCache = new WeakMap<CompiledRouter, Map<string, { expires: number; body: string }>>();
+
+function compileOpenApiPath(r: RouteConfig): string | undefined {
+  if (!r.openapi) return undefined;
+  const path = r.openapi === true ? "/openapi.json" : r.openapi;
+  if (typeof path !== "string" || !path.startsWith("/")) {
+    throw new Error(`Invalid openapi path for route "${r.path}": expected true or a path.`);
   }
+  return path;
+}
 
-  const compiled: CompiledRoute[] = [];
+/** Replaces every string in `node` found in `renames`, e.g. `$ref`s and discriminator mappings */
+function renameRefs(node: any, renames: Map<string, string>): any {
+  if (typeof node === "string") return renames.get(node) ?? node;
+  if (!node || typeof node !== "object") return node;
+  for (const key of Object.keys(node)) node[key] = renameRefs(node[key], renames);
+  return node;
+}
 
-  for (const r of routeDefs) {
-    if (!r.binding || !r.path) {
-      throw new Error(`Invalid route configuration: ${JSON.stringify(r)}`);
+/** The path part of the spec's first server, which its paths are relative to */
+function serverBasePath(spec: any): string {
+  const server = spec.servers?.[0]?.url;
+  if (typeof server !== "string" || server.includes("{")) return "";
+  try {
+    return new URL(server, "http://base").pathname.replace(/\/+$/, "");
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Merges sub-app specs into `merged`. Paths are prefixed with the mount and
+ * the spec's server path. Components that clash with a different definition
+ * of the same name are renamed `<BINDING>_<name>` and their references
+ * rewritten; clashing operationIds are prefixed the same way.
+ */
+function mergeOpenApi(merged: any, spec: any, route: CompiledRoute, operationIds: Set<string>) {
+  const prefix = route.bindingName;
+  const renames = new Map<string, string>();
+  const schemeRenames = new Map<string, string>();
+  const accepted: [section: string, name: string, definition: unknown][] = [];
+
+  for (const section of COMPONENT_SECTIONS) {
+    const components = spec.components?.[section];
+    if (!components || typeof components !== "object") continue;
+    const taken = merged.components[section] ?? {};
+
+    for (const [name, definition] of Object.entries(components)) {
+      let finalName = name;
+      if (name in taken && JSON.stringify(taken[name]) !== JSON.stringify(definition)) {
+        finalName = `${prefix}_${name}`;
+        for (let i = 2; finalName in taken; i++) finalName = `${prefix}_${name}_${i}`;
+        renames.set(`#/components/${section}/${name}`, `#/components/${section}/${finalName}`);
+        if (section === "securitySchemes") schemeRenames.set(name, finalName);
+      }
+      accepted.push([section, finalName, definition]);
     }
+  }
 
-    const binding = (envObj as any)[r.binding];
-    if (!binding || typeof binding.fetch !== "function") {
-      throw new Error(`Binding "${r.binding}" not found or is not a valid service binding.`);
+  // Definitions are shared with `spec`, so this also fixes refs between components
+  renameRefs(spec, renames);
+  for (const [section, name, definition] of accepted) {
+    (merged.components[section] ??= {})[name] ??= definition;
+  }
+
+  // Security requirements name schemes directly rather than by $ref
+  const renameSchemes = (requirements: unknown) =>
+    Array.isArray(requirements)
+      ? requirements.map((req) =>
+          Object.fromEntries(
+            Object.entries(req ?? {}).map(([name, scopes]) => [
+              schemeRenames.get(name) ?? name,
+              scopes,
+            ]),
+          ),
+        )
+      : requirements;
+
+  const mount = route.staticMount === "/" ? "" : route.staticMount!;
+  const base = mount + serverBasePath(spec);
+
+  for (const [path, item] of Object.entries<any>(spec.paths ?? {})) {
+    const fullPath = path === "/" && base ? base : base + path;
+    if (fullPath in merged.paths || !item || typeof item !== "object") continue;
+
+    for (const method of HTTP_METHODS) {
+      const operation = item[method];
+      if (!operation || typeof operation !== "object") continue;
+      // The merged document has no global security, so each operation carries its own
+      operation.security = renameSchemes(operation.security ?? spec.security);
+      if (operation.security === undefined) delete operation.security;
+      if (typeof operation.operationId === "string") {
+        if (operationIds.has(operation.operationId)) {
+          operation.operationId = `${prefix}_${operation.operationId}`;
+        }
+        operationIds.add(operation.operationId);
+      }
     }
+    merged.paths[fullPath] = item;
+  }
 
-    const expr = normalizePath(r.path);
-    const { re, isStaticMount, staticMount } = compilePathExpr(expr);
+  for (const tag of spec.tags ?? []) {
+    merged.tags ??= [];
+    if (!merged.tags.some((t: any) => t?.name === tag?.name)) merged.tags.push(tag);
+  }
+  if (typeof spec.openapi === "string" && spec.openapi > merged.openapi) {
+    merged.openapi = spec.openapi;
+  }
+}
 
-    compiled.push({
-      expr,
-      binding: binding as Fetcher,
-      preload: r.preload,
-      re,
-      isStaticMount,
-      staticMount,
-      baseSpecificity: computeBaseSpecificity(expr),
+/**
+ * Serves the OpenAPI documents of opted-in, unauthenticated static mounts on
+ * this host as one document, merged in mount order, or resolves to null when
+ * no such route opted in.
+ */
+async function mergedOpenApi(
+  request: Request,
+  url: URL,
+  router: CompiledRouter,
+  requestId: string,
+): Promise<Response | null> {
+  const hostname = url.hostname.toLowerCase();
+  const routes = router.routes
+    // Specs are fetched past the route's auth, so protected mounts are never republished
+    .filter(
+      (route) => route.openapi && route.staticMount && !route.auth && matchHost(route, hostname),
+    )
+    .sort((a, b) => (a.staticMount! < b.staticMount! ? -1 : 1));
+  if (!routes.length || (request.method !== "GET" && request.method !== "HEAD")) return null;
+
+  let cache = openApiCache.get(router);
+  if (!cache) openApiCache.set(router, (cache = new Map()));
+  let cached = cache.get(hostname);
+
+  if (!cached || cached.expires <= Date.now()) {
+    const specs = await Promise.all(
+      routes.map(async (route) => {
+        const file = await fetchMountFile(route, url, route.openapi!, router, requestId);
+        try {
+          return file ? await file.json() : null;
+        } catch {
+          return null;
+        }
+      }),
+    );
+
+    const merged: any = {
+      openapi: "3.0.3",
+      info: { title: "workerstack", version: "1.0.0" },
+      servers: [{ url: url.origin }],
+      paths: {},
+      components: {},
+    };
+    const operationIds = new Set<string>();
+    specs.forEach((spec, i) => {
+      if (spec && typeof spec === "object") mergeOpenApi(merged, spec, routes[i], operationIds);
     });
+
+    cached = { expires: Date.now() + OPENAPI_TTL, body: JSON.stringify(merged) };
+    cache.set(hostname, cached);
   }
 
-  compiled.sort((a, b) => {
-    if (b.baseSpecificity !== a.baseSpecificity) return b.baseSpecificity - a.baseSpecificity;
-    return b.expr.length - a.expr.length;
+  return new Response(request.method === "HEAD" ? null : cached.body, {
+    headers: {
+      "content-type": "application/json; charset=utf-8",
+      "cache-control": `public, max-age=${OPENAPI_TTL / 1000}`,
+    },
   });
+}
+
+/* ------------------------------- client runtime ------------------------------- */
+
+/** Public like the merged OpenAPI document; the mount table is visible in pages anyway */
+const CLIENT_RUNTIME_PATH = `${INTROSPECTION_PREFIX}client.js`;
+
+/**
+ * The module behind `clientRuntime`. It serves the `mountUrl` and
+ * `crossMountUrl` of `@chr33s/workerstack/client` from their source and
+ * resolves workerstack:// URLs passed to XHR, EventSource, WebSocket,
+ * sendBeacon, the History API and links, on top of the fetch override
+ * injected inline.
+ */
+function clientRuntimeScript(mounts: Record<string, string>): string {
+  // Bundlers may rename the functions, so refer to them by their runtime names
+  return [
+    `const mounts=${JSON.stringify(mounts)},scheme="workerstack://";`,
+    String(mountUrl),
+    String(crossMountUrl),
+    `export{${mountUrl.name} as mountUrl,${crossMountUrl.name} as crossMountUrl};`,
+    `const resolve=(u)=>(typeof u==="string"||u instanceof URL)&&String(u).startsWith(scheme)?${mountUrl.name}(String(u)):u;`,
+    `window.__WORKERSTACK_MOUNTS__=mounts;`,
+    `const open=XMLHttpRequest.prototype.open;`,
+    `XMLHttpRequest.prototype.open=function(method,url,...rest){return open.call(this,method,resolve(url),...rest)};`,
+    `if(window.EventSource){const E=window.EventSource;` +
+      `window.EventSource=class extends E{constructor(url,init){super(resolve(url),init)}}}`,
+    `if(window.WebSocket){const W=window.WebSocket;window.WebSocket=class extends W{constructor(url,protocols){` +
+      `const r=resolve(url);super(r===url?url:new URL(r,location.href.replace(/^http/,"ws")),protocols)}}}`,
+    `if(navigator.sendBeacon){const beacon=navigator.sendBeacon.bind(navigator);` +
+      `navigator.sendBeacon=(url,data)=>beacon(resolve(url),data)}`,
+    `for(const method of["pushState","replaceState"]){const h=history[method];` +
+      `history[method]=function(state,title,url){return h.call(this,state,title,resolve(url))}}`,
+    `const follow=(e)=>{const a=e.target instanceof Element&&e.target.closest('a[href^="workerstack:"]');` +
+      `if(a)a.setAttribute("href",${mountUrl.name}(a.getAttribute("href")))};`,
+    `addEventListener("click",follow,true);addEventListener("auxclick",follow,true);`,
+    ``,
+  ].join("\n");
+}
+
+/**
+ * Serves the client runtime with the static mounts of the requested host,
+ * keyed by binding, or resolves to null for methods other than GET and HEAD.
+ */
+function clientRuntimeResponse(
+  request: Request,
+  url: URL,
+  router: CompiledRouter,
+): Response | null {
+  if (request.method !== "GET" && request.method !== "HEAD") return null;
+
+  const hostname = url.hostname.toLowerCase();
+  const mounts: Record<string, string> = {};
+  for (const route of router.routes) {
+    if (route.staticMount && matchHost(route, hostname)) {
+      mounts[route.bindingName] ??= route.staticMount;
+    }
+  }
 
-  return { routes: compiled, smoothTransitions };
+  return new Response(request.method === "HEAD" ? null : clientRuntimeScript(mounts), {
+    headers: {
+      "content-type": "text/javascript; charset=utf-8",
+      "cache-control": "public, max-age=300",
+    },
+  });
 }
 
 /* --------------------------------- fetch --------------------------------- */
 
-export async function workerstack(request: Request, envParam?: typeof env): Promise<Response> {
-  const envObj = envParam || env;
-  const url = new URL(request.url);
+/** Request headers forwarded from the page request to its fragment requests */
+const FRAGMENT_FORWARD_HEADERS = ["cookie", "accept-language", "user-agent", TRACEPARENT_HEADER];
 
-  const { routes, smoothTransitions } = buildRoutes(envObj);
+async function routeRequest(
+  request: Request,
+  router: CompiledRouter,
+  depth: number,
+  requestId: string,
+  trace?: Trace,
+): Promise<Response> {
+  let url = new URL(request.url);
 
-  let best: {
-    route: CompiledRoute;
-    mountActual: string;
-    score: number;
-  } | null = null;
+  if (depth === 0 && url.pathname === OPENAPI_PATH) {
+    const response = await mergedOpenApi(request, url, router, requestId);
+    if (response) return response;
+  }
 
-  let rootRoute: CompiledRoute | null = null;
+  if (depth === 0 && router.clientRuntime && url.pathname === CLIENT_RUNTIME_PATH) {
+    const response = clientRuntimeResponse(request, url, router);
+    if (response) return response;
+  }
 
-  for (const route of routes) {
-    if (route.staticMount === "/" || route.expr === "/") {
-      rootRoute = route;
-    }
+  if (depth === 0 && router.introspection && url.pathname.startsWith(INTROSPECTION_PREFIX)) {
+    return introspect(request, url, router, requestId);
+  }
 
-    const m = route.re.exec(url.pathname);
-    if (!m) continue;
+  // Fragments are fetched by the router, not a browser, so a redirect would only
+  // ever render their fallback; they are routed at the path they name
+  if (depth === 0) {
+    const slashRedirect = trailingSlashRedirect(router.trailingSlash, url);
+    if (slashRedirect) return slashRedirect;
 
-    const mountActual = normalizePath(m[1]);
+    const redirect = applyPathRule(router.redirects, url);
+    if (redirect) return Response.redirect(redirect.target.toString(), redirect.rule.status);
+  }
+
+  const rewrite = applyPathRule(router.rewrites, url);
+  if (rewrite) {
+    url = rewrite.target;
+    request = new Request(url, request);
+  }
+
+  if (depth === 0 && (request.method === "GET" || request.method === "HEAD")) {
+    const crawl = await crawlerResponse(request, url, router, requestId);
+    if (crawl) return crawl;
+  }
+
+  const best = matchRoute(router, url);
+  addPhase(trace, "route", performance.now() - (trace?.start ?? 0));
+
+  if (!best) return renderError(request, router, undefined, 404, requestId);
+
+  const fragments: FragmentContext | undefined = router.fragments
+    ? {
+        timeout: router.fragments.timeout,
+        enabled: depth < router.fragments.maxDepth,
+        fetch: (src) => {
+          const headers = new Headers({ accept: "text/html" });
+          for (const name of FRAGMENT_FORWARD_HEADERS) {
+            const value = request.headers.get(name);
+            if (value) headers.set(name, value);
+          }
+          return routeRequest(
+            new Request(new URL(src, url), { headers }),
+            router,
+            depth + 1,
+            requestId,
+          );
+        },
+      }
+    : undefined;
+
+  const cors = best.route.headerPolicy?.cors;
+  if (cors && isPreflight(request)) {
+    return applyHeaderPolicy(preflightResponse(cors, request), best.route.headerPolicy, request);
+  }
+
+  // Only safe requests fall through: a request body can be consumed once
+  const matches =
+    best.route.fallthrough && (request.method === "GET" || request.method === "HEAD")
+      ? matchRoutes(router, url)
+      : [best];
+
+  const { response, route } = await dispatch(
+    request,
+    url,
+    router,
+    matches,
+    fragments,
+    requestId,
+    trace,
+  );
+  return applyHeaderPolicy(response, route.headerPolicy, request);
+}
 
-    const score = mountActual.length * 1000000 + route.baseSpecificity * 1000 + route.expr.length;
+/**
+ * Forwards to the first match, moving down the fallthrough chain while routes
+ * ask for it. Resolves with the response and the route that produced it.
+ */
+async function dispatch(
+  request: Request,
+  url: URL,
+  router: CompiledRouter,
+  matches: RouteMatch[],
+  fragments: FragmentContext | undefined,
+  requestId: string,
+  trace?: Trace,
+): Promise<{ response: Response; route: CompiledRoute }> {
+  let response!: Response;
+  let route = matches[0].route;
+  const limiters = new Set<string>();
+  for (let i = 0; i < matches.length; i++) {
+    const match = matches[i];
+    route = match.route;
+    let resp: Response | null;
+    if (route.unavailable) {
+      return { response: await renderError(request, router, route, 503, requestId), route };
+    }
+    try {
+      // Falling through to a route on the same limiter is not another request
+      if (route.rateLimit && !limiters.has(route.rateLimit.binding)) {
+        limiters.add(route.rateLimit.binding);
+        const limited = await enforceRateLimit(request, router, route, requestId);
+        if (limited) return { response: limited, route };
+      }
+
+      let identity: string | undefined;
+      if (match.route.auth) {
+        const result = await authenticate(match.route.auth, request);
+        if ("status" in result) {
+          return {
+            response: await denyRequest(request, url, router, route, result.status, requestId),
+            route,
+          };
+        }
+        identity = await signIdentity(result.identity, route.expr, await router.identityKey!);
+      }
+
+      resp = await withTimeout(
+        forwardToRoute(request, url, router, match, fragments, requestId, identity, trace),
+        match.route.timeout,
+      );
+    } catch {
+      return { response: await renderError(request, router, route, 502, requestId), route };
+    }
+    if (!resp) {
+      return { response: await renderError(request, router, route, 504, requestId), route };
+    }
 
-    if (!best || score > best.score) {
-      best = { route, mountActual, score };
+    response = resp;
+    if (i === matches.length - 1 || !match.route.fallthrough?.includes(response.status)) {
+      if (route.interceptErrors?.(response.status)) {
+        await response.body?.cancel();
+        response = await renderError(request, router, route, response.status, requestId);
+      }
+      break;
     }
+    await response.body?.cancel();
+  }
+
+  return { response, route };
+}
+
+async function forwardToRoute(
+  request: Request,
+  url: URL,
+  router: CompiledRouter,
+  best: RouteMatch,
+  fragments: FragmentContext | undefined,
+  requestId: string,
+  identity?: string,
+  trace?: Trace,
+): Promise<Response> {
+  const hostname = url.hostname.toLowerCase();
+  const preloadStaticMounts = router.preloadRoutes
+    .filter((r) => r.staticMount !== best.mountActual && matchHost(r, hostname))
+    .map((r) => r.staticMount!);
+
+  const selected = selectVariant(best.route, request, url);
+  let upstreamRequest = request;
+  if (selected && url.searchParams.has(VARIANT_PARAM)) {
+    const forwardUrl = new URL(url);
+    forwardUrl.searchParams.delete(VARIANT_PARAM);
+    upstreamRequest = new Request(forwardUrl, request);
   }
 
-  const assetPrefixes = buildAssetPrefixes(envObj);
+  const fetchUpstream = async () => {
+    const started = performance.now();
+    const upstreamBefore = trace?.phases.upstream ?? 0;
+    const response = await handleMountedApp(
+      upstreamRequest,
+      selected?.variant.binding ?? best.route.binding,
+      best.mountActual,
+      router.assetPrefixes,
+      {
+        smoothTransitions: router.smoothTransitions,
+        clientRuntime: router.clientRuntime,
+        preloadStaticMounts: preloadStaticMounts.length ? preloadStaticMounts : undefined,
+        rewriteJs: best.route.rewriteJs,
+        rewriteJson: best.route.rewriteJson,
+        // Listed sitemaps are scoped so the index points at crawlable URLs
+        rewriteXml:
+          best.route.rewriteXml ||
+          (!!best.route.sitemap && url.pathname === `${best.mountActual}${SITEMAP_PATH}`),
+        csp: best.route.csp,
+        fragments,
+        route: best.route.expr,
+        params: best.params,
+        variant: selected?.variant.name,
+        requestId,
+        identity,
+        trace,
+        cache: best.route.cache,
+      },
+    );
+    // Whatever was not spent waiting on the upstream went into rewriting
+    const upstreamMs = (trace?.phases.upstream ?? 0) - upstreamBefore;
+    addPhase(trace, "rewrite", performance.now() - started - upstreamMs);
+    return response;
+  };
 
-  if (!best && rootRoute) {
-    best = {
-      route: rootRoute,
-      mountActual: "/",
-      score: 0,
+  if (trace) {
+    trace.served = {
+      route: best.route.expr,
+      mount: best.mountActual,
+      binding: best.route.bindingName,
+      variant: selected?.variant.name,
     };
   }
 
-  if (!best) return new Response("Not found", { status: 404 });
+  const response = await fetchUpstream();
 
-  const preloadStaticMounts = routes
-    .filter(
-      (r) => r.preload && r.isStaticMount && r.staticMount && r.staticMount !== best!.mountActual,
-    )
-    .map((r) => r.staticMount!)
-    .map(normalizePath);
+  if (selected) {
+    response.headers.set(VARIANT_HEADER, selected.variant.name);
+    if (selected.setCookie) {
+      response.headers.append(
+        "Set-Cookie",
+        `${best.route.variantCookie}=${encodeURIComponent(selected.variant.name)}; Path=${best.mountActual}; Max-Age=2592000; SameSite=Lax; Secure; HttpOnly`,
+      );
+    }
+  }
 
-  return handleMountedApp(request, best.route.binding, best.mountActual, assetPrefixes, {
-    smoothTransitions,
-    preloadStaticMounts: preloadStaticMounts.length ? preloadStaticMounts : undefined,
-  });
+  return notModified(request, response);
+}
+
+export async function workerstack(request: Request, envParam?: typeof env): Promise<Response> {
+  const router = getRouter(envParam || env);
+  if (router.tracing || router.analytics) return observedRequest(request, router);
+  return routeRequest(request, router, 0, createRequestId(request));
 }
 
 export default {